@@ -0,0 +1,259 @@
+/**
+ * Protocol Administration
+ *
+ * Wraps the authority-only instructions of the Sol Bets V3 program. Every
+ * action can be previewed (before/expected-after Protocol state, nothing
+ * sent) or executed (before/after state fetched from chain).
+ */
+
+import BN from 'bn.js';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionSignature,
+} from '@solana/web3.js';
+import {
+  fetchTransactionEvents,
+  getProgram,
+  getProtocolPda,
+  toPlainObject,
+} from './betting.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AdminAction =
+  | { type: 'initializeProtocol'; treasury: string }
+  | { type: 'pauseProtocol' }
+  | { type: 'unpauseProtocol' }
+  | { type: 'addWhitelistedOracle'; oracle: string }
+  | { type: 'removeWhitelistedOracle'; oracle: string }
+  | { type: 'updateOracleFee'; newFee: string }
+  | { type: 'transferAuthority'; newAuthority: string }
+  | { type: 'acceptAuthority' };
+
+export interface AdminAccess {
+  /** Whether the Protocol account exists yet */
+  initialized: boolean;
+  /** Wallet is the current protocol authority */
+  isAuthority: boolean;
+  /** Wallet is the pending authority of an ongoing transfer */
+  isPendingAuthority: boolean;
+}
+
+export interface AdminActionResult {
+  action: AdminAction['type'];
+  executed: boolean;
+  signature: TransactionSignature | null;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  /** Events emitted by the transaction (e.g. ProtocolPaused, OracleWhitelisted) */
+  events: Array<{ name: string; data: Record<string, any> }>;
+}
+
+// ============================================================================
+// Access Control
+// ============================================================================
+
+/**
+ * Fetch the Protocol account as plain JSON, or null if not initialized
+ */
+export async function fetchProtocolState(
+  connection: Connection,
+  wallet: Keypair
+): Promise<Record<string, any> | null> {
+  const program = getProgram(connection, wallet);
+  const [protocolPda] = getProtocolPda();
+  const protocolAccount = await (program.account as any).protocol.fetchNullable(protocolPda);
+  return protocolAccount ? toPlainObject(protocolAccount) : null;
+}
+
+/**
+ * Determine what the wallet is allowed to do on the protocol
+ */
+export async function getAdminAccess(
+  connection: Connection,
+  wallet: Keypair
+): Promise<AdminAccess> {
+  const state = await fetchProtocolState(connection, wallet);
+  const address = wallet.publicKey.toString();
+
+  return {
+    initialized: state !== null,
+    isAuthority: state?.authority === address,
+    isPendingAuthority: state?.pendingAuthority === address,
+  };
+}
+
+/**
+ * Check whether an action is permitted for the given access level
+ */
+export function isActionAllowed(access: AdminAccess, action: AdminAction['type']): boolean {
+  if (action === 'initializeProtocol') return !access.initialized;
+  if (action === 'acceptAuthority') return access.isPendingAuthority;
+  return access.isAuthority;
+}
+
+// ============================================================================
+// Preview
+// ============================================================================
+
+/**
+ * Compute the expected Protocol state after an action, without sending it
+ */
+export function previewAdminAction(
+  before: Record<string, any> | null,
+  action: AdminAction,
+  walletAddress: string
+): Record<string, any> | null {
+  if (action.type === 'initializeProtocol') {
+    return {
+      authority: walletAddress,
+      treasury: action.treasury,
+      marketCount: '0',
+      isPaused: false,
+      whitelistedOracles: [],
+      pendingAuthority: null,
+    };
+  }
+  if (!before) return null;
+
+  switch (action.type) {
+    case 'pauseProtocol':
+      return { ...before, isPaused: true };
+    case 'unpauseProtocol':
+      return { ...before, isPaused: false };
+    case 'addWhitelistedOracle':
+      return {
+        ...before,
+        whitelistedOracles: before.whitelistedOracles.includes(action.oracle)
+          ? before.whitelistedOracles
+          : [...before.whitelistedOracles, action.oracle],
+      };
+    case 'removeWhitelistedOracle':
+      return {
+        ...before,
+        whitelistedOracles: before.whitelistedOracles.filter((o: string) => o !== action.oracle),
+      };
+    case 'updateOracleFee':
+      return { ...before, oracleFee: action.newFee };
+    case 'transferAuthority':
+      return { ...before, pendingAuthority: action.newAuthority };
+    case 'acceptAuthority':
+      return { ...before, authority: walletAddress, pendingAuthority: null };
+  }
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Build the Anchor method call for an admin action
+ */
+function buildAdminMethod(program: any, wallet: Keypair, action: AdminAction) {
+  const [protocolPda] = getProtocolPda();
+  const authorityAccounts = { protocol: protocolPda, authority: wallet.publicKey };
+
+  switch (action.type) {
+    case 'initializeProtocol':
+      return program.methods.initializeProtocol().accounts({
+        ...authorityAccounts,
+        treasury: new PublicKey(action.treasury),
+        systemProgram: SystemProgram.programId,
+      });
+    case 'pauseProtocol':
+      return program.methods.pauseProtocol().accounts(authorityAccounts);
+    case 'unpauseProtocol':
+      return program.methods.unpauseProtocol().accounts(authorityAccounts);
+    case 'addWhitelistedOracle':
+      return program.methods.addWhitelistedOracle().accounts({
+        ...authorityAccounts,
+        oracle: new PublicKey(action.oracle),
+      });
+    case 'removeWhitelistedOracle':
+      return program.methods.removeWhitelistedOracle().accounts({
+        ...authorityAccounts,
+        oracle: new PublicKey(action.oracle),
+      });
+    case 'updateOracleFee':
+      return program.methods.updateOracleFee(new BN(action.newFee)).accounts(authorityAccounts);
+    case 'transferAuthority':
+      return program.methods
+        .transferAuthority(new PublicKey(action.newAuthority))
+        .accounts({ protocol: protocolPda, currentAuthority: wallet.publicKey });
+    case 'acceptAuthority':
+      return program.methods
+        .acceptAuthority()
+        .accounts({ protocol: protocolPda, newAuthority: wallet.publicKey });
+  }
+}
+
+/**
+ * Preview or execute an admin action
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the protocol authority (or pending authority)
+ * @param action - Action to perform
+ * @param execute - false to only preview, true to send the transaction
+ * @returns Before/after Protocol state and the signature if executed
+ */
+export async function runAdminAction(
+  connection: Connection,
+  wallet: Keypair,
+  action: AdminAction,
+  execute: boolean
+): Promise<AdminActionResult> {
+  const before = await fetchProtocolState(connection, wallet);
+  const walletAddress = wallet.publicKey.toString();
+
+  if (!execute) {
+    return {
+      action: action.type,
+      executed: false,
+      signature: null,
+      before,
+      after: previewAdminAction(before, action, walletAddress),
+      events: [],
+    };
+  }
+
+  console.error(`\n🛡️ ADMIN ACTION: ${action.type}`);
+  console.error(`${'='.repeat(60)}`);
+  console.error(`   Action: ${JSON.stringify(action)}`);
+  console.error(`   Signer: ${walletAddress}`);
+  console.error(`${'='.repeat(60)}\n`);
+
+  try {
+    const program = getProgram(connection, wallet);
+    const signature: TransactionSignature = await buildAdminMethod(program, wallet, action).rpc();
+    const after = await fetchProtocolState(connection, wallet);
+
+    let events: AdminActionResult['events'] = [];
+    try {
+      events = (await fetchTransactionEvents(connection, program, signature)).map((e) => ({
+        name: e.name,
+        data: toPlainObject(e.data),
+      }));
+    } catch (error) {
+      console.error(`⚠️  Could not decode admin events: ${error}`);
+    }
+
+    console.error(`\n✅ ADMIN ACTION CONFIRMED`);
+    console.error(`${'='.repeat(60)}`);
+    console.error(`   Signature: ${signature}`);
+    console.error(`   🔍 View: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+    console.error(`${'='.repeat(60)}\n`);
+
+    return { action: action.type, executed: true, signature, before, after, events };
+  } catch (error) {
+    console.error(`\n❌ ADMIN ACTION FAILED`);
+    console.error(`${'='.repeat(60)}`);
+    console.error(`   Error: ${error}`);
+    console.error(`${'='.repeat(60)}\n`);
+    throw error;
+  }
+}
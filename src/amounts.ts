@@ -0,0 +1,72 @@
+/**
+ * Decimal Amounts
+ *
+ * Exact conversion between decimal amounts ("1.5") and smallest units
+ * (lamports, micro-USDC) using bigint, so no value is ever rounded through
+ * floating point.
+ */
+
+import { createInvalidInputError } from './errors.js';
+
+export type Currency = 'SOL' | 'USDC';
+
+/** Decimals of each betting currency */
+export const CURRENCY_DECIMALS: Record<Currency, number> = {
+  SOL: 9,
+  USDC: 6,
+};
+
+const DECIMAL_PATTERN = /^(\d+)(?:\.(\d*))?$|^\.(\d+)$/;
+
+/**
+ * Parse a decimal amount into smallest units
+ *
+ * @param amount - Decimal amount, e.g. "0.5" or 0.5
+ * @param currency - Currency the amount is in
+ * @returns Amount in smallest units
+ * @throws INVALID_INPUT for negative, non-numeric or over-precise input
+ */
+export function parseAmount(amount: string | number, currency: Currency): bigint {
+  const decimals = CURRENCY_DECIMALS[currency];
+  const text = String(amount).trim();
+  const match = DECIMAL_PATTERN.exec(text);
+
+  if (!match) {
+    throw createInvalidInputError(
+      text.startsWith('-')
+        ? `Amount must not be negative: "${text}"`
+        : `Amount is not a decimal number: "${text}"`,
+      { amount: text, currencyType: currency, example: currency === 'SOL' ? '0.25' : '10.5' }
+    );
+  }
+
+  const whole = match[1] ?? '0';
+  const fraction = match[2] ?? match[3] ?? '';
+
+  if (fraction.length > decimals) {
+    throw createInvalidInputError(
+      `Amount ${text} has more than ${decimals} decimal places, the precision of ${currency}`,
+      { amount: text, currencyType: currency, maxDecimals: decimals }
+    );
+  }
+
+  return BigInt(whole) * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+}
+
+/**
+ * Format smallest units as a decimal amount without trailing zeros
+ *
+ * @param units - Amount in smallest units (bigint, decimal string or BN)
+ * @param currency - Currency of the amount
+ * @returns Decimal string, e.g. "1.5"
+ */
+export function formatAmount(units: bigint | string | number | { toString(): string }, currency: Currency): string {
+  const decimals = BigInt(CURRENCY_DECIMALS[currency]);
+  const value = BigInt(units.toString());
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const base = 10n ** decimals;
+
+  const fraction = (abs % base).toString().padStart(Number(decimals), '0').replace(/0+$/, '');
+  return `${negative ? '-' : ''}${abs / base}${fraction ? `.${fraction}` : ''}`;
+}
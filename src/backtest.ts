@@ -0,0 +1,384 @@
+/**
+ * Strategy Backtester
+ *
+ * Replays recorded market history from the event index through a strategy.
+ * MarketCreated events supply each market's betting end, BetPlaced events
+ * move the pools and give the strategy a chance to bet, and MarketResolved /
+ * MarketNeedsRefund events settle its positions.
+ *
+ * Simulated bets pay the fee rate of the recorded bet they follow and move
+ * the pools exactly like real ones (see parimutuel.ts); later recorded bets
+ * are applied on top of the strategy's stakes, so its own price impact
+ * persists until the market settles.
+ */
+
+import { Connection } from '@solana/web3.js';
+import { Currency, formatAmount, parseAmount } from './amounts.js';
+import { MIN_BET_SOL, MIN_BET_USDC } from './betting.js';
+import { resolveMarketAddress } from './chain.js';
+import { IndexedEvent, readIndexedEvents, syncEventIndex } from './indexer.js';
+import { FeeRates, Pools, Position, calculateFees, impliedOdds, winningPayout } from './parimutuel.js';
+import { Strategy, StrategyParams, createStrategy } from './strategies.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BacktestConfig {
+  /** Fee rates for bets whose event does not record its fees */
+  rates?: FeeRates;
+  /** Starting bankroll per currency in smallest units; markets in other currencies are not traded */
+  bankroll: Partial<Record<Currency, bigint>>;
+  /** Only trade these market addresses */
+  markets?: string[];
+  /** Unix seconds; the strategy only bets from here on, earlier events still build the markets */
+  since?: number;
+}
+
+export type MarketResult = 'won' | 'lost' | 'refunded' | 'open';
+
+export interface MarketReport {
+  marketAddress: string;
+  marketId: string;
+  title: string;
+  currencyType: Currency;
+  bets: number;
+  staked: string;
+  feesPaid: string;
+  payout: string;
+  profit: string;
+  result: MarketResult;
+  outcome: 'YES' | 'NO' | null;
+}
+
+export interface CurrencyReport {
+  startingBankroll: string;
+  /** Cash plus open positions at cost */
+  endingBankroll: string;
+  totalStaked: string;
+  feesPaid: string;
+  /** Payouts minus stakes of settled markets */
+  realizedProfit: string;
+  /** realizedProfit / stakes of settled markets */
+  roi: number | null;
+  bets: number;
+  marketsTraded: number;
+  won: number;
+  lost: number;
+  refunded: number;
+  open: number;
+  /** won / (won + lost) */
+  hitRate: number | null;
+  /** Largest peak-to-trough fall of the bankroll (open positions at cost) */
+  maxDrawdown: string;
+  maxDrawdownPct: number;
+}
+
+export interface BacktestReport {
+  strategy: { name: string; description: string };
+  eventsReplayed: number;
+  marketsSeen: number;
+  /** Markets with bets but no indexed MarketCreated event (betting end unknown) */
+  marketsSkipped: number;
+  /** Strategy decisions that could not be placed (below minimum bet or no cash) */
+  rejectedDecisions: number;
+  currencies: Partial<Record<Currency, CurrencyReport>>;
+  markets: MarketReport[];
+}
+
+interface SimulatedMarket {
+  address: string;
+  marketId: string;
+  title: string;
+  bettingEnds: number;
+  currency: Currency | null;
+  /** Recorded pools, without the strategy's stakes */
+  pools: Pools;
+  position: Position;
+  deposited: bigint;
+  fees: bigint;
+  bets: number;
+  payout: bigint;
+  result: MarketResult;
+  outcome: boolean | null;
+}
+
+interface Account {
+  start: bigint;
+  cash: bigint;
+  /** Stakes of open positions */
+  openCost: bigint;
+  peak: bigint;
+  maxDrawdown: bigint;
+  maxDrawdownPct: number;
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+function minBet(currency: Currency): bigint {
+  return BigInt((currency === 'SOL' ? MIN_BET_SOL : MIN_BET_USDC).toString());
+}
+
+/**
+ * Fee rates in force for a recorded bet, from its gross and net amounts
+ *
+ * BetPlaced records only the total fee, so it is carried as one rate; bets
+ * are at least the minimum bet, large enough for the rounded rate to match
+ * the floored fees.
+ */
+function recordedRates(data: Record<string, any>, fallback: FeeRates | undefined): FeeRates {
+  if (data.amount === undefined || data.netAmount === undefined || BigInt(data.amount) === 0n) {
+    return fallback ?? { creatorFeeBps: 0, protocolFeeBps: 0 };
+  }
+  const amount = BigInt(data.amount);
+  const feeBps = Math.round(Number(((amount - BigInt(data.netAmount)) * 100_000n) / amount) / 10);
+  return { creatorFeeBps: feeBps, protocolFeeBps: 0 };
+}
+
+function withStakes(market: SimulatedMarket): Pools {
+  return {
+    yesPool: market.pools.yesPool + market.position.yesAmount,
+    noPool: market.pools.noPool + market.position.noAmount,
+  };
+}
+
+function trackDrawdown(account: Account): void {
+  const equity = account.cash + account.openCost;
+  if (equity > account.peak) account.peak = equity;
+
+  const drawdown = account.peak - equity;
+  if (drawdown > account.maxDrawdown) {
+    account.maxDrawdown = drawdown;
+    account.maxDrawdownPct = account.peak > 0n ? Number(drawdown) / Number(account.peak) : 0;
+  }
+}
+
+/**
+ * Settle a market: pay the winning stakes from the pools including the
+ * strategy's stakes, or refund the net stakes if there is no winner
+ */
+function settle(market: SimulatedMarket, account: Account | undefined, outcome: boolean | null): void {
+  if (market.result !== 'open') return;
+
+  const pools = withStakes(market);
+  const winningPool = outcome === null ? 0n : outcome ? pools.yesPool : pools.noPool;
+  const refunded = winningPool === 0n;
+
+  market.outcome = outcome;
+  market.payout = refunded
+    ? market.position.yesAmount + market.position.noAmount
+    : winningPayout(outcome ? market.position.yesAmount : market.position.noAmount, winningPool, pools.yesPool + pools.noPool);
+  market.result = market.bets === 0 ? 'open' : refunded ? 'refunded' : market.payout > market.deposited ? 'won' : 'lost';
+
+  if (account && market.bets > 0) {
+    account.cash += market.payout;
+    account.openCost -= market.deposited;
+    trackDrawdown(account);
+  }
+}
+
+/**
+ * Replay recorded events through a strategy
+ *
+ * @param events - Indexed events in chronological order
+ * @param strategy - Strategy deciding the bets
+ * @param config - Starting bankroll per currency, fallback fee rates, optional market filter and start time
+ * @returns Aggregate results per currency and a breakdown per market
+ */
+export function runBacktest(events: IndexedEvent[], strategy: Strategy, config: BacktestConfig): BacktestReport {
+  const markets = new Map<string, SimulatedMarket>();
+  const skipped = new Set<string>();
+  const accounts: Partial<Record<Currency, Account>> = {};
+  for (const [currency, bankroll] of Object.entries(config.bankroll) as Array<[Currency, bigint]>) {
+    accounts[currency] = { start: bankroll, cash: bankroll, openCost: 0n, peak: bankroll, maxDrawdown: 0n, maxDrawdownPct: 0 };
+  }
+  let rejectedDecisions = 0;
+
+  for (const event of events) {
+    const address: string = event.data.marketAddress;
+    if (config.markets && !config.markets.includes(address)) continue;
+
+    if (event.name === 'marketCreated') {
+      markets.set(address, {
+        address,
+        marketId: event.data.marketId,
+        title: event.data.title,
+        bettingEnds: Number(event.data.bettingEnds),
+        currency: null,
+        pools: { yesPool: 0n, noPool: 0n },
+        position: { yesAmount: 0n, noAmount: 0n },
+        deposited: 0n,
+        fees: 0n,
+        bets: 0,
+        payout: 0n,
+        result: 'open',
+        outcome: null,
+      });
+      continue;
+    }
+
+    const market = markets.get(address);
+    if (!market) {
+      skipped.add(address);
+      continue;
+    }
+
+    if (event.name === 'marketResolved' || event.name === 'marketNeedsRefund') {
+      const account = market.currency ? accounts[market.currency] : undefined;
+      settle(market, account, event.name === 'marketResolved' ? Boolean(event.data.outcome) : null);
+      continue;
+    }
+    if (event.name !== 'betPlaced') continue;
+
+    market.currency = event.data.currencyType;
+    market.pools = { yesPool: BigInt(event.data.newYesPool), noPool: BigInt(event.data.newNoPool) };
+
+    const time = event.blockTime ?? 0;
+    const account = accounts[market.currency!];
+    if (!account || market.result !== 'open' || time >= market.bettingEnds) continue;
+    if (config.since !== undefined && time < config.since) continue;
+
+    const rates = recordedRates(event.data, config.rates);
+    const pools = withStakes(market);
+    const decision = strategy.decide({
+      marketAddress: address,
+      marketId: market.marketId,
+      title: market.title,
+      currencyType: market.currency!,
+      time,
+      secondsToBettingEnds: market.bettingEnds - time,
+      pools,
+      odds: impliedOdds(pools),
+      rates,
+      position: { ...market.position },
+      betCount: market.bets,
+      bankroll: account.cash,
+    });
+    if (!decision) continue;
+
+    const amount = decision.amount > account.cash ? account.cash : decision.amount;
+    if (amount < minBet(market.currency!)) {
+      rejectedDecisions++;
+      continue;
+    }
+
+    const fees = calculateFees(amount, rates);
+    if (decision.betYes) market.position.yesAmount += fees.netAmount;
+    else market.position.noAmount += fees.netAmount;
+    market.deposited += amount;
+    market.fees += fees.totalFee;
+    market.bets++;
+    account.cash -= amount;
+    account.openCost += amount;
+    trackDrawdown(account);
+  }
+
+  const traded = [...markets.values()].filter((market) => market.bets > 0);
+
+  const currencies: Partial<Record<Currency, CurrencyReport>> = {};
+  for (const [currency, account] of Object.entries(accounts) as Array<[Currency, Account]>) {
+    const mine = traded.filter((market) => market.currency === currency);
+    const settled = mine.filter((market) => market.result !== 'open');
+    const count = (result: MarketResult) => mine.filter((market) => market.result === result).length;
+    const sum = (list: SimulatedMarket[], pick: (market: SimulatedMarket) => bigint) =>
+      list.reduce((total, market) => total + pick(market), 0n);
+
+    const settledStake = sum(settled, (m) => m.deposited);
+    const realized = sum(settled, (m) => m.payout) - settledStake;
+    const won = count('won');
+    const lost = count('lost');
+
+    currencies[currency] = {
+      startingBankroll: formatAmount(account.start, currency),
+      endingBankroll: formatAmount(account.cash + account.openCost, currency),
+      totalStaked: formatAmount(sum(mine, (m) => m.deposited), currency),
+      feesPaid: formatAmount(sum(mine, (m) => m.fees), currency),
+      realizedProfit: formatAmount(realized, currency),
+      roi: settledStake > 0n ? Number(realized) / Number(settledStake) : null,
+      bets: mine.reduce((total, market) => total + market.bets, 0),
+      marketsTraded: mine.length,
+      won,
+      lost,
+      refunded: count('refunded'),
+      open: count('open'),
+      hitRate: won + lost > 0 ? won / (won + lost) : null,
+      maxDrawdown: formatAmount(account.maxDrawdown, currency),
+      maxDrawdownPct: account.maxDrawdownPct,
+    };
+  }
+
+  return {
+    strategy: { name: strategy.name, description: strategy.description },
+    eventsReplayed: events.length,
+    marketsSeen: markets.size,
+    marketsSkipped: skipped.size,
+    rejectedDecisions,
+    currencies,
+    markets: traded.map((market) => {
+      const currency = market.currency!;
+      return {
+        marketAddress: market.address,
+        marketId: market.marketId,
+        title: market.title,
+        currencyType: currency,
+        bets: market.bets,
+        staked: formatAmount(market.deposited, currency),
+        feesPaid: formatAmount(market.fees, currency),
+        payout: formatAmount(market.payout, currency),
+        profit: market.result === 'open' ? '0' : formatAmount(market.payout - market.deposited, currency),
+        result: market.result,
+        outcome: market.outcome === null ? null : market.outcome ? 'YES' : 'NO',
+      };
+    }),
+  };
+}
+
+// ============================================================================
+// Index Backtests
+// ============================================================================
+
+/**
+ * Backtest a built-in strategy over the local event index
+ *
+ * Every market is replayed from its creation, whatever the time range; the
+ * strategy only bets inside it. Fees follow the rates recorded on each bet.
+ *
+ * @param connection - Solana connection
+ * @param indexDir - Directory holding the event index
+ * @param strategyName - Built-in strategy (see STRATEGIES)
+ * @param params - Strategy parameters
+ * @param options - Decimal bankroll per currency, optional markets, time range and index refresh
+ */
+export async function backtestFromIndex(
+  connection: Connection,
+  indexDir: string,
+  strategyName: string,
+  params: StrategyParams,
+  options: {
+    bankroll: Partial<Record<Currency, string>>;
+    marketIds?: string[];
+    since?: number;
+    until?: number;
+    refresh?: boolean;
+  }
+): Promise<BacktestReport> {
+  const strategy = createStrategy(strategyName, params);
+
+  if (options.refresh ?? true) {
+    await syncEventIndex(connection, indexDir);
+  }
+
+  const bankroll: Partial<Record<Currency, bigint>> = {};
+  for (const [currency, amount] of Object.entries(options.bankroll) as Array<[Currency, string]>) {
+    bankroll[currency] = parseAmount(amount, currency);
+  }
+
+  const events = readIndexedEvents(indexDir, { until: options.until });
+  return runBacktest(events, strategy, {
+    bankroll,
+    markets: options.marketIds?.map((id) => resolveMarketAddress(id).toString()),
+    since: options.since,
+  });
+}
@@ -5,18 +5,30 @@
  * Program ID: 4VqF8bf4SqsQdt9zxbSdxUGQYWjt9XmL6pxPdy7BRauF
  */
 
-import { AnchorProvider, Program, Wallet } from '@coral-xyz/anchor';
+import { AnchorProvider, EventParser, Program, Wallet } from '@coral-xyz/anchor';
 import BN from 'bn.js';
+import bs58 from 'bs58';
 import {
   Connection,
   Keypair,
   PublicKey,
+  sendAndConfirmRawTransaction,
   SystemProgram,
   SYSVAR_CLOCK_PUBKEY,
+  TransactionMessage,
   TransactionSignature,
+  VersionedTransaction,
 } from '@solana/web3.js';
 import { getAssociatedTokenAddressSync, TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import IDL from '../sol_bets_v3.json' with { type: 'json' };
+import { formatAmount } from './amounts.js';
+import {
+  BettingError,
+  BettingErrorCode,
+  createProgramError,
+  decodeError,
+  decodeTransactionError,
+} from './errors.js';
 
 // ============================================================================
 // Constants
@@ -93,10 +105,306 @@ export function getMarketUsdcVaultPda(marketPda: PublicKey): [PublicKey, number]
   );
 }
 
+// ============================================================================
+// Program Helpers
+// ============================================================================
+
+/**
+ * Create an Anchor program client for the given wallet
+ * @param connection - Solana connection
+ * @param wallet - Keypair used as provider wallet (signer for writes)
+ */
+export function getProgram(connection: Connection, wallet: Keypair): Program {
+  const provider = new AnchorProvider(
+    connection,
+    new Wallet(wallet),
+    { commitment: 'confirmed' }
+  );
+  return new Program(IDL as any, provider);
+}
+
+/**
+ * Convert an Anchor-decoded CurrencyType enum ({ sol: {} } | { usdc: {} })
+ * into the 'SOL' | 'USDC' string used throughout the server
+ */
+export function toCurrencyType(value: Record<string, unknown>): 'SOL' | 'USDC' {
+  return 'usdc' in value ? 'USDC' : 'SOL';
+}
+
+/**
+ * Convert Anchor-decoded account data into JSON-friendly values
+ * (BN and bigint → decimal string, PublicKey → base58, nested objects and arrays recursively)
+ */
+export function toPlainObject(value: any): any {
+  if (value === null || value === undefined) return value;
+  if (BN.isBN(value) || typeof value === 'bigint') return value.toString();
+  if (value instanceof PublicKey) return value.toString();
+  if (Array.isArray(value)) return value.map(toPlainObject);
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, toPlainObject(v)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Fetch a confirmed transaction and decode the Anchor events in its logs
+ * @param connection - Solana connection
+ * @param program - Program client (provides the event coder)
+ * @param signature - Transaction signature
+ * @returns Decoded events in emission order (camelCase names and fields)
+ */
+export async function fetchTransactionEvents(
+  connection: Connection,
+  program: Program,
+  signature: TransactionSignature
+): Promise<Array<{ name: string; data: Record<string, any> }>> {
+  const tx = await connection.getTransaction(signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0,
+  });
+  const logs = tx?.meta?.logMessages ?? [];
+
+  const parser = new EventParser(program.programId, program.coder);
+  return Array.from(parser.parseLogs(logs));
+}
+
+/**
+ * Find a single event in a confirmed transaction, as plain JSON
+ *
+ * Decoding is best-effort: the transaction has already landed, so a failure
+ * to fetch or parse its logs is logged and reported as null.
+ *
+ * @param eventName - camelCase event name (e.g. "betPlaced")
+ */
+export async function findTransactionEvent(
+  connection: Connection,
+  program: Program,
+  signature: TransactionSignature,
+  eventName: string
+): Promise<Record<string, any> | null> {
+  try {
+    const events = await fetchTransactionEvents(connection, program, signature);
+    const event = events.find((e) => e.name === eventName);
+    return event ? toPlainObject(event.data) : null;
+  } catch (error) {
+    console.error(`⚠️  Could not decode ${eventName} event: ${error}`);
+    return null;
+  }
+}
+
+export interface SimulationResult {
+  wouldSucceed: boolean;
+  logs: string[];
+  events: Array<{ name: string; data: Record<string, any> }>;
+  unitsConsumed: number | null;
+  error: ReturnType<BettingError['toJSON']> | null;
+}
+
+export interface BetResult {
+  /** Transaction signature, null for dry runs */
+  signature: TransactionSignature | null;
+  /** Decoded BetPlaced event (net_amount, new pools, user totals), if found */
+  event: Record<string, any> | null;
+  /** Simulation details, only set for dry runs */
+  simulation?: SimulationResult;
+}
+
+/** A signed transaction that was handed to the RPC node */
+export interface SubmittedTransaction {
+  signature: TransactionSignature;
+  /** Last block height at which the transaction can still land */
+  lastValidBlockHeight: number;
+}
+
+export type SubmissionStatus = 'landed' | 'failed' | 'pending' | 'dropped';
+
+export interface CreateMarketResult {
+  /** Transaction signature, null for dry runs */
+  signature: TransactionSignature | null;
+  marketAddress: string;
+  marketId: string;
+  /** Decoded MarketCreated event (creation and oracle fees paid), if found */
+  event: Record<string, any> | null;
+  /** Simulation details, only set for dry runs */
+  simulation?: SimulationResult;
+}
+
+/**
+ * Simulate an Anchor method without submitting it
+ *
+ * Builds the same instruction the method would send, wraps it in a
+ * transaction paid by the wallet and runs simulateTransaction without
+ * signature verification. Program errors are returned, not thrown.
+ *
+ * @param connection - Solana connection
+ * @param program - Program client (provides the event coder)
+ * @param builder - Anchor method builder with accounts set
+ * @param payer - Fee payer of the simulated transaction
+ */
+export async function simulateMethod(
+  connection: Connection,
+  program: Program,
+  builder: any,
+  payer: PublicKey
+): Promise<SimulationResult> {
+  const instruction = await builder.instruction();
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions: [instruction],
+  }).compileToV0Message();
+
+  const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: 'confirmed',
+  });
+
+  const logs = value.logs ?? [];
+  const parser = new EventParser(program.programId, program.coder);
+  const events = Array.from(parser.parseLogs(logs)).map((e) => ({
+    name: e.name,
+    data: toPlainObject(e.data),
+  }));
+
+  return {
+    wouldSucceed: !value.err,
+    logs,
+    events,
+    unitsConsumed: value.unitsConsumed ?? null,
+    error: value.err ? decodeTransactionError(value.err).toJSON() : null,
+  };
+}
+
+/**
+ * Throw the decoded error of a failed simulation, for callers that treat a
+ * failing dry run as a failure (background jobs) rather than a result
+ */
+export function throwIfSimulationFailed(simulation: SimulationResult): void {
+  if (simulation.wouldSucceed) return;
+
+  const error = simulation.error;
+  throw new BettingError(
+    error?.code ?? BettingErrorCode.UNKNOWN,
+    `Simulation failed: ${error?.message ?? 'unknown error'}`,
+    error?.remedy ?? 'Check the simulation logs.',
+    error?.retryable ?? false,
+    { logs: simulation.logs }
+  );
+}
+
+// ============================================================================
+// Submission
+// ============================================================================
+
+/**
+ * Sign, send and confirm an Anchor method
+ *
+ * The transaction is signed before it is sent, so its signature is known
+ * even when sending or confirming fails. Errors thrown after signing carry
+ * it in details.submitted, and getSubmissionStatus tells whether it landed.
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair paying for and signing the transaction
+ * @param builder - Anchor method builder with accounts set
+ */
+async function sendMethod(connection: Connection, wallet: Keypair, builder: any): Promise<TransactionSignature> {
+  const transaction = await builder.transaction();
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = wallet.publicKey;
+  transaction.sign(wallet);
+  const signature = bs58.encode(transaction.signature!);
+
+  try {
+    await sendAndConfirmRawTransaction(
+      connection,
+      transaction.serialize(),
+      { signature, blockhash, lastValidBlockHeight },
+      { commitment: 'confirmed' }
+    );
+    return signature;
+  } catch (error) {
+    const decoded = decodeError(error);
+    throw new BettingError(decoded.code, decoded.message, decoded.remedy, decoded.retryable, {
+      ...decoded.details,
+      submitted: { signature, lastValidBlockHeight },
+    });
+  }
+}
+
+/**
+ * The transaction a failed submission may have sent, if the error carries one
+ */
+export function getSubmittedTransaction(error: BettingError): SubmittedTransaction | null {
+  return error.details?.submitted ?? null;
+}
+
+/**
+ * Find out whether a submitted transaction landed
+ *
+ * - landed / failed: confirmed on chain, with or without an error
+ * - pending: not confirmed yet and its blockhash is still valid, so it may still land
+ * - dropped: not found after its blockhash expired, so it never will
+ *
+ * The block height is read before the signature status, so a transaction
+ * that landed by then is always found.
+ *
+ * @param connection - Solana connection
+ * @param submitted - Signature and last valid block height of the transaction
+ */
+export async function getSubmissionStatus(
+  connection: Connection,
+  submitted: SubmittedTransaction
+): Promise<{ status: SubmissionStatus; error: BettingError | null }> {
+  const blockHeight = await connection.getBlockHeight('confirmed');
+  const { value } = await connection.getSignatureStatus(submitted.signature, { searchTransactionHistory: true });
+
+  if (value && value.confirmationStatus !== 'processed') {
+    return value.err
+      ? { status: 'failed', error: decodeTransactionError(value.err) }
+      : { status: 'landed', error: null };
+  }
+  if (value || blockHeight <= submitted.lastValidBlockHeight) {
+    return { status: 'pending', error: null };
+  }
+  return { status: 'dropped', error: null };
+}
+
 // ============================================================================
 // Betting Functions
 // ============================================================================
 
+/**
+ * Simulate a place_bet instruction and report the would-be BetPlaced event
+ */
+async function simulateBet(
+  connection: Connection,
+  program: Program,
+  builder: any,
+  payer: PublicKey
+): Promise<BetResult> {
+  console.error(`🧪 Dry run: simulating transaction...`);
+  const simulation = await simulateMethod(connection, program, builder, payer);
+
+  console.error(`\n🧪 DRY RUN ${simulation.wouldSucceed ? 'SUCCEEDED' : 'FAILED'}`);
+  console.error(`${'='.repeat(60)}`);
+  console.error(`   Compute Units: ${simulation.unitsConsumed ?? 'unknown'}`);
+  if (simulation.error) {
+    console.error(`   Error: ${simulation.error.code} - ${simulation.error.message}`);
+  }
+  console.error(`${'='.repeat(60)}\n`);
+
+  return {
+    signature: null,
+    event: simulation.events.find((e) => e.name === 'betPlaced')?.data ?? null,
+    simulation,
+  };
+}
+
 /**
  * Place a bet on a SOL market
  *
@@ -106,7 +414,8 @@ export function getMarketUsdcVaultPda(marketPda: PublicKey): [PublicKey, number]
  * @param marketId - Market ID (from the Market account)
  * @param amountLamports - Bet amount in lamports
  * @param betYes - true for YES, false for NO
- * @returns Transaction signature
+ * @param dryRun - Simulate the transaction instead of submitting it
+ * @returns Transaction signature and decoded BetPlaced event
  */
 export async function placeBetSol(
   connection: Connection,
@@ -114,13 +423,14 @@ export async function placeBetSol(
   marketAddress: string,
   marketId: number,
   amountLamports: string,
-  betYes: boolean
-): Promise<TransactionSignature> {
+  betYes: boolean,
+  dryRun: boolean = false
+): Promise<BetResult> {
   console.error(`\n🎲 PLACING SOL BET`);
   console.error(`${'='.repeat(60)}`);
   console.error(`   Market Address: ${marketAddress}`);
   console.error(`   Market ID: ${marketId}`);
-  console.error(`   Amount: ${parseFloat(amountLamports) / 1e9} SOL (${amountLamports} lamports)`);
+  console.error(`   Amount: ${formatAmount(amountLamports, 'SOL')} SOL (${amountLamports} lamports)`);
   console.error(`   Side: ${betYes ? 'YES' : 'NO'}`);
   console.error(`   Wallet: ${wallet.publicKey.toString()}`);
   console.error(`${'='.repeat(60)}\n`);
@@ -140,10 +450,10 @@ export async function placeBetSol(
 
   // Validate amount
   if (amount.lt(MIN_BET_SOL)) {
-    throw new Error(`Amount too small. Minimum: ${MIN_BET_SOL.toString()} lamports (0.005 SOL)`);
+    throw createProgramError('BetTooSmall', `Amount too small. Minimum: ${MIN_BET_SOL.toString()} lamports (0.005 SOL)`);
   }
   if (amount.gt(MAX_BET_SOL)) {
-    throw new Error(`Amount too large. Maximum: ${MAX_BET_SOL.toString()} lamports`);
+    throw createProgramError('BetTooLarge', `Amount too large. Maximum: ${MAX_BET_SOL.toString()} lamports`);
   }
 
   // Derive PDAs
@@ -157,9 +467,7 @@ export async function placeBetSol(
   console.error(`   Market Vault: ${marketVaultPda.toString()}\n`);
 
   try {
-    // Execute the instruction
-    console.error(`📤 Sending transaction...`);
-    const signature = await program.methods
+    const builder = program.methods
       .placeBetSol(amount, betYes)
       .accounts({
         protocol: protocolPda,
@@ -169,16 +477,29 @@ export async function placeBetSol(
         marketVault: marketVaultPda,
         systemProgram: SystemProgram.programId,
         clock: SYSVAR_CLOCK_PUBKEY,
-      })
-      .rpc();
+      });
+
+    if (dryRun) {
+      return simulateBet(connection, program, builder, wallet.publicKey);
+    }
+
+    // Execute the instruction
+    console.error(`📤 Sending transaction...`);
+    const signature = await sendMethod(connection, wallet, builder);
+
+    const event = await findTransactionEvent(connection, program, signature, 'betPlaced');
 
     console.error(`\n✅ BET PLACED SUCCESSFULLY!`);
     console.error(`${'='.repeat(60)}`);
     console.error(`   Signature: ${signature}`);
+    if (event) {
+      console.error(`   Net Amount: ${event.netAmount}`);
+      console.error(`   New Pools: YES ${event.newYesPool} / NO ${event.newNoPool}`);
+    }
     console.error(`   🔍 View: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
     console.error(`${'='.repeat(60)}\n`);
 
-    return signature;
+    return { signature, event };
   } catch (error) {
     console.error(`\n❌ BET FAILED`);
     console.error(`${'='.repeat(60)}`);
@@ -197,7 +518,8 @@ export async function placeBetSol(
  * @param marketId - Market ID (from the Market account)
  * @param amountMicroUsdc - Bet amount in micro-USDC (6 decimals)
  * @param betYes - true for YES, false for NO
- * @returns Transaction signature
+ * @param dryRun - Simulate the transaction instead of submitting it
+ * @returns Transaction signature and decoded BetPlaced event
  */
 export async function placeBetUsdc(
   connection: Connection,
@@ -205,13 +527,14 @@ export async function placeBetUsdc(
   marketAddress: string,
   marketId: number,
   amountMicroUsdc: string,
-  betYes: boolean
-): Promise<TransactionSignature> {
+  betYes: boolean,
+  dryRun: boolean = false
+): Promise<BetResult> {
   console.error(`\n🎲 PLACING USDC BET`);
   console.error(`${'='.repeat(60)}`);
   console.error(`   Market Address: ${marketAddress}`);
   console.error(`   Market ID: ${marketId}`);
-  console.error(`   Amount: ${parseFloat(amountMicroUsdc) / 1e6} USDC (${amountMicroUsdc} micro-USDC)`);
+  console.error(`   Amount: ${formatAmount(amountMicroUsdc, 'USDC')} USDC (${amountMicroUsdc} micro-USDC)`);
   console.error(`   Side: ${betYes ? 'YES' : 'NO'}`);
   console.error(`   Wallet: ${wallet.publicKey.toString()}`);
   console.error(`${'='.repeat(60)}\n`);
@@ -231,10 +554,10 @@ export async function placeBetUsdc(
 
   // Validate amount
   if (amount.lt(MIN_BET_USDC)) {
-    throw new Error(`Amount too small. Minimum: ${MIN_BET_USDC.toString()} micro-USDC (1 USDC)`);
+    throw createProgramError('BetTooSmall', `Amount too small. Minimum: ${MIN_BET_USDC.toString()} micro-USDC (1 USDC)`);
   }
   if (amount.gt(MAX_BET_USDC)) {
-    throw new Error(`Amount too large. Maximum: ${MAX_BET_USDC.toString()} micro-USDC`);
+    throw createProgramError('BetTooLarge', `Amount too large. Maximum: ${MAX_BET_USDC.toString()} micro-USDC`);
   }
 
   // Derive PDAs
@@ -255,9 +578,7 @@ export async function placeBetUsdc(
   console.error(`   User Token Account: ${userTokenAccount.toString()}\n`);
 
   try {
-    // Execute the instruction
-    console.error(`📤 Sending transaction...`);
-    const signature = await program.methods
+    const builder = program.methods
       .placeBetUsdc(amount, betYes)
       .accounts({
         protocol: protocolPda,
@@ -270,16 +591,29 @@ export async function placeBetUsdc(
         tokenProgram: TOKEN_PROGRAM_ID,
         systemProgram: SystemProgram.programId,
         clock: SYSVAR_CLOCK_PUBKEY,
-      })
-      .rpc();
+      });
+
+    if (dryRun) {
+      return simulateBet(connection, program, builder, wallet.publicKey);
+    }
+
+    // Execute the instruction
+    console.error(`📤 Sending transaction...`);
+    const signature = await sendMethod(connection, wallet, builder);
+
+    const event = await findTransactionEvent(connection, program, signature, 'betPlaced');
 
     console.error(`\n✅ BET PLACED SUCCESSFULLY!`);
     console.error(`${'='.repeat(60)}`);
     console.error(`   Signature: ${signature}`);
+    if (event) {
+      console.error(`   Net Amount: ${event.netAmount}`);
+      console.error(`   New Pools: YES ${event.newYesPool} / NO ${event.newNoPool}`);
+    }
     console.error(`   🔍 View: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
     console.error(`${'='.repeat(60)}\n`);
 
-    return signature;
+    return { signature, event };
   } catch (error) {
     console.error(`\n❌ BET FAILED`);
     console.error(`${'='.repeat(60)}`);
@@ -289,6 +623,33 @@ export async function placeBetUsdc(
   }
 }
 
+/**
+ * Place a bet, dispatching on the market currency
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the bettor
+ * @param marketAddress - On-chain address of the market
+ * @param marketId - Market ID (from the Market account)
+ * @param amount - Bet amount in smallest units (lamports or micro-USDC)
+ * @param betYes - true for YES, false for NO
+ * @param currencyType - Currency of the market
+ * @param dryRun - Simulate the transaction instead of submitting it
+ */
+export async function placeBet(
+  connection: Connection,
+  wallet: Keypair,
+  marketAddress: string,
+  marketId: number,
+  amount: string,
+  betYes: boolean,
+  currencyType: 'SOL' | 'USDC',
+  dryRun: boolean = false
+): Promise<BetResult> {
+  return currencyType === 'SOL'
+    ? placeBetSol(connection, wallet, marketAddress, marketId, amount, betYes, dryRun)
+    : placeBetUsdc(connection, wallet, marketAddress, marketId, amount, betYes, dryRun);
+}
+
 /**
  * Create a new prediction market on Solana
  *
@@ -301,7 +662,8 @@ export async function placeBetUsdc(
  * @param resolutionTime - Unix timestamp when market should be resolved
  * @param oracleAddress - Public key of oracle
  * @param currencyType - SOL or USDC
- * @returns Transaction signature and market address
+ * @param dryRun - Simulate the transaction instead of submitting it
+ * @returns Transaction signature, market address and decoded MarketCreated event
  */
 export async function createMarket(
   connection: Connection,
@@ -312,8 +674,9 @@ export async function createMarket(
   bettingEnds: number,
   resolutionTime: number,
   oracleAddress: string,
-  currencyType: 'SOL' | 'USDC'
-): Promise<{ signature: TransactionSignature; marketAddress: string; marketId: string }> {
+  currencyType: 'SOL' | 'USDC',
+  dryRun: boolean = false
+): Promise<CreateMarketResult> {
   console.error(`\n🏗️ CREATING MARKET ON SOLANA`);
   console.error(`${'='.repeat(60)}`);
   console.error(`   Title: ${title}`);
@@ -359,9 +722,7 @@ export async function createMarket(
     // Determine currency type enum
     const currencyEnum = currencyType === 'SOL' ? { sol: {} } : { usdc: {} };
 
-    // Execute the instruction
-    console.error(`📤 Sending create market transaction...`);
-    const signature = await program.methods
+    const builder = program.methods
       .createMarket(
         title,
         descriptionUri,
@@ -378,8 +739,27 @@ export async function createMarket(
         treasury: treasuryPda,
         systemProgram: SystemProgram.programId,
         clock: SYSVAR_CLOCK_PUBKEY,
-      })
-      .rpc();
+      });
+
+    if (dryRun) {
+      console.error(`🧪 Dry run: simulating create market transaction...`);
+      const simulation = await simulateMethod(connection, program, builder, wallet.publicKey);
+      console.error(`🧪 Dry run ${simulation.wouldSucceed ? 'succeeded' : 'failed'}\n`);
+
+      return {
+        signature: null,
+        marketAddress: marketPda.toString(),
+        marketId: marketCount.toString(),
+        event: simulation.events.find((e) => e.name === 'marketCreated')?.data ?? null,
+        simulation,
+      };
+    }
+
+    // Execute the instruction
+    console.error(`📤 Sending create market transaction...`);
+    const signature = await builder.rpc();
+
+    const event = await findTransactionEvent(connection, program, signature, 'marketCreated');
 
     console.error(`\n✅ MARKET CREATED SUCCESSFULLY!`);
     console.error(`${'='.repeat(60)}`);
@@ -393,6 +773,7 @@ export async function createMarket(
       signature,
       marketAddress: marketPda.toString(),
       marketId: marketCount.toString(),
+      event,
     };
   } catch (error) {
     console.error(`\n❌ MARKET CREATION FAILED`);
@@ -402,3 +783,487 @@ export async function createMarket(
     throw error;
   }
 }
+
+// ============================================================================
+// Claim Functions
+// ============================================================================
+
+export interface ClaimResult {
+  signature: TransactionSignature;
+  currencyType: 'SOL' | 'USDC';
+  /** Payout in smallest units, from the WinningsClaimed event */
+  payoutAmount: string | null;
+  /** Decoded WinningsClaimed event, if it could be found in the transaction logs */
+  event: Record<string, any> | null;
+}
+
+/**
+ * Extract the WinningsClaimed event from a confirmed claim transaction
+ */
+async function getClaimResult(
+  connection: Connection,
+  program: Program,
+  signature: TransactionSignature,
+  currencyType: 'SOL' | 'USDC'
+): Promise<ClaimResult> {
+  const event = await findTransactionEvent(connection, program, signature, 'winningsClaimed');
+  return {
+    signature,
+    currencyType,
+    payoutAmount: event ? event.payoutAmount : null,
+    event,
+  };
+}
+
+/**
+ * Claim winnings from a resolved SOL market
+ *
+ * The treasury and creator accounts (which receive the deferred fees) are
+ * read from the Protocol and Market accounts.
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the winner
+ * @param marketAddress - On-chain address of the market
+ * @returns Claim signature and payout from the WinningsClaimed event
+ */
+export async function claimWinningsSol(
+  connection: Connection,
+  wallet: Keypair,
+  marketAddress: string
+): Promise<ClaimResult> {
+  console.error(`\n🏆 CLAIMING SOL WINNINGS`);
+  console.error(`${'='.repeat(60)}`);
+  console.error(`   Market Address: ${marketAddress}`);
+  console.error(`   Wallet: ${wallet.publicKey.toString()}`);
+  console.error(`${'='.repeat(60)}\n`);
+
+  const program = getProgram(connection, wallet);
+  const marketPubkey = new PublicKey(marketAddress);
+
+  try {
+    const [protocolPda] = getProtocolPda();
+    const protocolAccount = await (program.account as any).protocol.fetch(protocolPda);
+    const marketAccount = await (program.account as any).market.fetch(marketPubkey);
+
+    if (toCurrencyType(marketAccount.currencyType) !== 'SOL') {
+      throw createProgramError('WrongCurrencyType', 'Market is not a SOL market - use claimWinningsUsdc');
+    }
+
+    const [userPositionPda] = getUserPositionPda(marketPubkey, wallet.publicKey);
+    const [marketVaultPda] = getMarketVaultPda(marketPubkey);
+
+    console.error(`📍 Derived accounts:`);
+    console.error(`   Protocol: ${protocolPda.toString()}`);
+    console.error(`   User Position: ${userPositionPda.toString()}`);
+    console.error(`   Market Vault: ${marketVaultPda.toString()}`);
+    console.error(`   Treasury: ${protocolAccount.treasury.toString()}`);
+    console.error(`   Creator: ${marketAccount.creator.toString()}\n`);
+
+    console.error(`📤 Sending claim transaction...`);
+    const signature = await program.methods
+      .claimWinningsSol()
+      .accounts({
+        protocol: protocolPda,
+        market: marketPubkey,
+        userPosition: userPositionPda,
+        user: wallet.publicKey,
+        marketVault: marketVaultPda,
+        treasury: protocolAccount.treasury,
+        creator: marketAccount.creator,
+        systemProgram: SystemProgram.programId,
+      })
+      .rpc();
+
+    const result = await getClaimResult(connection, program, signature, 'SOL');
+
+    console.error(`\n✅ WINNINGS CLAIMED!`);
+    console.error(`${'='.repeat(60)}`);
+    console.error(`   Signature: ${signature}`);
+    console.error(`   Payout: ${result.payoutAmount ?? 'unknown'} lamports`);
+    console.error(`   🔍 View: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+    console.error(`${'='.repeat(60)}\n`);
+
+    return result;
+  } catch (error) {
+    console.error(`\n❌ CLAIM FAILED`);
+    console.error(`${'='.repeat(60)}`);
+    console.error(`   Error: ${error}`);
+    console.error(`${'='.repeat(60)}\n`);
+    throw error;
+  }
+}
+
+/**
+ * Claim winnings from a resolved USDC market
+ *
+ * Fees are paid out to the associated USDC token accounts of the protocol
+ * treasury and the market creator.
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the winner
+ * @param marketAddress - On-chain address of the market
+ * @returns Claim signature and payout from the WinningsClaimed event
+ */
+export async function claimWinningsUsdc(
+  connection: Connection,
+  wallet: Keypair,
+  marketAddress: string
+): Promise<ClaimResult> {
+  console.error(`\n🏆 CLAIMING USDC WINNINGS`);
+  console.error(`${'='.repeat(60)}`);
+  console.error(`   Market Address: ${marketAddress}`);
+  console.error(`   Wallet: ${wallet.publicKey.toString()}`);
+  console.error(`${'='.repeat(60)}\n`);
+
+  const program = getProgram(connection, wallet);
+  const marketPubkey = new PublicKey(marketAddress);
+
+  try {
+    const [protocolPda] = getProtocolPda();
+    const protocolAccount = await (program.account as any).protocol.fetch(protocolPda);
+    const marketAccount = await (program.account as any).market.fetch(marketPubkey);
+
+    if (toCurrencyType(marketAccount.currencyType) !== 'USDC') {
+      throw createProgramError('WrongCurrencyType', 'Market is not a USDC market - use claimWinningsSol');
+    }
+
+    const [userPositionPda] = getUserPositionPda(marketPubkey, wallet.publicKey);
+    const [marketUsdcVaultPda] = getMarketUsdcVaultPda(marketPubkey);
+
+    // Treasury may be a PDA, so allow off-curve owners
+    const userTokenAccount = getAssociatedTokenAddressSync(USDC_MINT_DEVNET, wallet.publicKey);
+    const treasuryTokenAccount = getAssociatedTokenAddressSync(
+      USDC_MINT_DEVNET,
+      protocolAccount.treasury,
+      true
+    );
+    const creatorTokenAccount = getAssociatedTokenAddressSync(
+      USDC_MINT_DEVNET,
+      marketAccount.creator,
+      true
+    );
+
+    console.error(`📍 Derived accounts:`);
+    console.error(`   Protocol: ${protocolPda.toString()}`);
+    console.error(`   User Position: ${userPositionPda.toString()}`);
+    console.error(`   Market USDC Vault: ${marketUsdcVaultPda.toString()}`);
+    console.error(`   User Token Account: ${userTokenAccount.toString()}`);
+    console.error(`   Treasury Token Account: ${treasuryTokenAccount.toString()}`);
+    console.error(`   Creator Token Account: ${creatorTokenAccount.toString()}\n`);
+
+    console.error(`📤 Sending claim transaction...`);
+    const signature = await program.methods
+      .claimWinningsUsdc()
+      .accounts({
+        protocol: protocolPda,
+        market: marketPubkey,
+        userPosition: userPositionPda,
+        user: wallet.publicKey,
+        userTokenAccount: userTokenAccount,
+        marketUsdcVault: marketUsdcVaultPda,
+        treasuryTokenAccount: treasuryTokenAccount,
+        creatorTokenAccount: creatorTokenAccount,
+        tokenProgram: TOKEN_PROGRAM_ID,
+      })
+      .rpc();
+
+    const result = await getClaimResult(connection, program, signature, 'USDC');
+
+    console.error(`\n✅ WINNINGS CLAIMED!`);
+    console.error(`${'='.repeat(60)}`);
+    console.error(`   Signature: ${signature}`);
+    console.error(`   Payout: ${result.payoutAmount ?? 'unknown'} micro-USDC`);
+    console.error(`   🔍 View: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+    console.error(`${'='.repeat(60)}\n`);
+
+    return result;
+  } catch (error) {
+    console.error(`\n❌ CLAIM FAILED`);
+    console.error(`${'='.repeat(60)}`);
+    console.error(`   Error: ${error}`);
+    console.error(`${'='.repeat(60)}\n`);
+    throw error;
+  }
+}
+
+/**
+ * Claim winnings from a resolved market, dispatching on the market's currency
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the winner
+ * @param marketAddress - On-chain address of the market
+ */
+export async function claimWinnings(
+  connection: Connection,
+  wallet: Keypair,
+  marketAddress: string
+): Promise<ClaimResult> {
+  const program = getProgram(connection, wallet);
+  const marketAccount = await (program.account as any).market.fetch(new PublicKey(marketAddress));
+
+  return toCurrencyType(marketAccount.currencyType) === 'SOL'
+    ? claimWinningsSol(connection, wallet, marketAddress)
+    : claimWinningsUsdc(connection, wallet, marketAddress);
+}
+
+// ============================================================================
+// Resolution Functions
+// ============================================================================
+
+/** Seconds the protocol authority must wait after resolution_time before overriding the oracle */
+export const ORACLE_TIMEOUT_SECONDS = 24 * 60 * 60;
+
+export interface ResolveResult {
+  signature: TransactionSignature;
+  marketId: string;
+  outcome: boolean;
+  /** Decoded MarketResolved event, if it could be found in the transaction logs */
+  event: Record<string, any> | null;
+}
+
+/**
+ * Validate the Market account before sending a resolution transaction,
+ * raising the program error the transaction would otherwise fail with
+ *
+ * ResolutionExpired is left to the program, since the IDL does not state
+ * the length of the oracle's grace period; sendResolution decodes it.
+ */
+function assertResolvable(marketAccount: any, byAuthority: boolean): void {
+  const now = Math.floor(Date.now() / 1000);
+  const resolutionTime = marketAccount.resolutionTime.toNumber();
+
+  if (marketAccount.isResolved) {
+    throw createProgramError(
+      'MarketAlreadyResolved',
+      `Market was already resolved to ${marketAccount.outcome ? 'YES' : 'NO'}`
+    );
+  }
+  if (now < resolutionTime) {
+    throw createProgramError(
+      'TooEarlyToResolve',
+      `Cannot resolve before resolution time ${new Date(resolutionTime * 1000).toISOString()}`
+    );
+  }
+  if (byAuthority && now < resolutionTime + ORACLE_TIMEOUT_SECONDS) {
+    throw createProgramError(
+      'OracleTimeoutNotReached',
+      `Authority can resolve after ${new Date((resolutionTime + ORACLE_TIMEOUT_SECONDS) * 1000).toISOString()}`
+    );
+  }
+}
+
+/**
+ * Send a resolve_market or resolve_market_by_authority transaction
+ */
+async function sendResolution(
+  connection: Connection,
+  wallet: Keypair,
+  marketAddress: string,
+  outcome: boolean,
+  byAuthority: boolean
+): Promise<ResolveResult> {
+  console.error(`\n⚖️ RESOLVING MARKET${byAuthority ? ' (AUTHORITY)' : ''}`);
+  console.error(`${'='.repeat(60)}`);
+  console.error(`   Market Address: ${marketAddress}`);
+  console.error(`   Outcome: ${outcome ? 'YES' : 'NO'}`);
+  console.error(`   ${byAuthority ? 'Authority' : 'Oracle'}: ${wallet.publicKey.toString()}`);
+  console.error(`${'='.repeat(60)}\n`);
+
+  const program = getProgram(connection, wallet);
+  const marketPubkey = new PublicKey(marketAddress);
+  const [protocolPda] = getProtocolPda();
+
+  try {
+    const marketAccount = await (program.account as any).market.fetch(marketPubkey);
+    assertResolvable(marketAccount, byAuthority);
+
+    if (byAuthority) {
+      const protocolAccount = await (program.account as any).protocol.fetch(protocolPda);
+      if (!protocolAccount.authority.equals(wallet.publicKey)) {
+        throw createProgramError(
+          'UnauthorizedAuthority',
+          `Wallet is not the protocol authority (${protocolAccount.authority.toString()})`
+        );
+      }
+    } else if (!marketAccount.oracle.equals(wallet.publicKey)) {
+      throw createProgramError(
+        'UnauthorizedOracle',
+        `Wallet is not the market oracle (${marketAccount.oracle.toString()})`
+      );
+    }
+
+    console.error(`📤 Sending resolve transaction...`);
+    const methods = program.methods as any;
+    const signature: TransactionSignature = byAuthority
+      ? await methods
+          .resolveMarketByAuthority(outcome)
+          .accounts({
+            protocol: protocolPda,
+            market: marketPubkey,
+            authority: wallet.publicKey,
+            clock: SYSVAR_CLOCK_PUBKEY,
+          })
+          .rpc()
+      : await methods
+          .resolveMarket(outcome)
+          .accounts({
+            protocol: protocolPda,
+            market: marketPubkey,
+            oracle: wallet.publicKey,
+            clock: SYSVAR_CLOCK_PUBKEY,
+          })
+          .rpc();
+
+    const event = await findTransactionEvent(connection, program, signature, 'marketResolved');
+
+    console.error(`\n✅ MARKET RESOLVED!`);
+    console.error(`${'='.repeat(60)}`);
+    console.error(`   Signature: ${signature}`);
+    console.error(`   Outcome: ${outcome ? 'YES' : 'NO'}`);
+    console.error(`   🔍 View: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+    console.error(`${'='.repeat(60)}\n`);
+
+    return {
+      signature,
+      marketId: marketAccount.id.toString(),
+      outcome,
+      event,
+    };
+  } catch (error) {
+    console.error(`\n❌ RESOLUTION FAILED`);
+    console.error(`${'='.repeat(60)}`);
+    console.error(`   Error: ${error}`);
+    console.error(`${'='.repeat(60)}\n`);
+    throw decodeError(error);
+  }
+}
+
+/**
+ * Resolve a market as its oracle
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the market's oracle
+ * @param marketAddress - On-chain address of the market
+ * @param outcome - true if YES won, false if NO won
+ * @returns Transaction signature and MarketResolved event
+ */
+export async function resolveMarket(
+  connection: Connection,
+  wallet: Keypair,
+  marketAddress: string,
+  outcome: boolean
+): Promise<ResolveResult> {
+  return sendResolution(connection, wallet, marketAddress, outcome, false);
+}
+
+/**
+ * Resolve a market as the protocol authority (after the oracle timeout)
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the protocol authority
+ * @param marketAddress - On-chain address of the market
+ * @param outcome - true if YES won, false if NO won
+ * @returns Transaction signature and MarketResolved event
+ */
+export async function resolveMarketByAuthority(
+  connection: Connection,
+  wallet: Keypair,
+  marketAddress: string,
+  outcome: boolean
+): Promise<ResolveResult> {
+  return sendResolution(connection, wallet, marketAddress, outcome, true);
+}
+
+// ============================================================================
+// View Functions (read-only instructions via simulation)
+// ============================================================================
+
+/**
+ * Simulate a read-only instruction and decode its return data
+ *
+ * Anchor programs publish return data in a "Program return: <program> <base64>"
+ * log line, which is decoded with the IDL type named by the instruction's
+ * `returns` field. Nothing is submitted, so no fees are paid.
+ *
+ * @param program - Program client (its wallet is the simulation fee payer)
+ * @param builder - Anchor method builder for the view instruction
+ * @param returnType - camelCase IDL type name of the return value
+ */
+async function simulateView(
+  program: Program,
+  builder: any,
+  returnType: string
+): Promise<Record<string, any>> {
+  const { raw } = await builder.simulate();
+  const prefix = `Program return: ${program.programId.toString()} `;
+  const returnLog = (raw as string[]).find((log) => log.startsWith(prefix));
+
+  if (!returnLog) {
+    throw new Error(`Simulation of ${returnType} produced no return data`);
+  }
+
+  const data = Buffer.from(returnLog.slice(prefix.length), 'base64');
+  return program.coder.types.decode(returnType, data);
+}
+
+/**
+ * Get the program's own MarketStats (odds, is_betting_open, can_resolve)
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair used as simulation fee payer (must exist on chain)
+ * @param marketAddress - On-chain address of the market
+ */
+export async function viewMarketStats(
+  connection: Connection,
+  wallet: Keypair,
+  marketAddress: string
+): Promise<Record<string, any>> {
+  const program = getProgram(connection, wallet);
+  const builder = program.methods.getMarketStats().accounts({
+    market: new PublicKey(marketAddress),
+    clock: SYSVAR_CLOCK_PUBKEY,
+  });
+  return simulateView(program, builder, 'marketStats');
+}
+
+/**
+ * Get the program's own ProtocolStats
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair used as simulation fee payer (must exist on chain)
+ */
+export async function viewProtocolStats(
+  connection: Connection,
+  wallet: Keypair
+): Promise<Record<string, any>> {
+  const program = getProgram(connection, wallet);
+  const [protocolPda] = getProtocolPda();
+  const builder = program.methods.getProtocolStats().accounts({
+    protocol: protocolPda,
+  });
+  return simulateView(program, builder, 'protocolStats');
+}
+
+/**
+ * Get the program's own UserPositionStats (potential_payout_yes/no, net_position)
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair used as simulation fee payer (must exist on chain)
+ * @param marketAddress - On-chain address of the market
+ * @param userAddress - Wallet whose position should be read
+ */
+export async function viewUserPositionStats(
+  connection: Connection,
+  wallet: Keypair,
+  marketAddress: string,
+  userAddress: string
+): Promise<Record<string, any>> {
+  const program = getProgram(connection, wallet);
+  const marketPubkey = new PublicKey(marketAddress);
+  const [userPositionPda] = getUserPositionPda(marketPubkey, new PublicKey(userAddress));
+  const builder = program.methods.getUserPositionStats().accounts({
+    market: marketPubkey,
+    userPosition: userPositionPda,
+  });
+  return simulateView(program, builder, 'userPositionStats');
+}
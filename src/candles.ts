@@ -0,0 +1,245 @@
+/**
+ * Odds History
+ *
+ * Builds OHLC candles of a market's implied YES probability from the indexed
+ * BetPlaced events. Every bet reports the pools after it was placed, so the
+ * probability before and after each bet is known exactly; a candle opens at
+ * the probability before its first bet and closes after its last one.
+ */
+
+import { Connection } from '@solana/web3.js';
+import { Currency, formatAmount } from './amounts.js';
+import { resolveMarketAddress } from './chain.js';
+import { createInvalidInputError } from './errors.js';
+import { IndexedEvent, readCheckpoint, readIndexedEvents, syncEventIndex } from './indexer.js';
+import { impliedOdds } from './parimutuel.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OddsCandle {
+  /** Bucket start, unix seconds */
+  time: number;
+  start: string;
+  /** Implied YES probability */
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  bets: number;
+  /** Gross amount bet in the bucket, in the market currency */
+  volume: string;
+  yesVolume: string;
+  noVolume: string;
+}
+
+export interface OddsHistory {
+  bucketSeconds: number;
+  currencyType: Currency | null;
+  candles: OddsCandle[];
+  /** True if older candles were dropped to stay within MAX_CANDLES */
+  truncated: boolean;
+  summary: {
+    bets: number;
+    volume: string;
+    firstProbability: number | null;
+    lastProbability: number | null;
+    /** lastProbability minus firstProbability */
+    change: number | null;
+  };
+}
+
+/** Most candles returned, the newest are kept */
+const MAX_CANDLES = 1000;
+
+const UNIT_SECONDS: Record<string, number> = { m: 60, h: 3600, d: 86400 };
+
+// ============================================================================
+// Candles
+// ============================================================================
+
+/**
+ * Parse a bucket size such as "5m", "1h" or "1d" into seconds
+ */
+export function parseBucket(bucket: string): number {
+  const match = /^(\d+)([mhd])$/.exec(bucket.trim());
+  if (!match || Number(match[1]) === 0) {
+    throw createInvalidInputError(`Invalid bucket size "${bucket}"`, {
+      expected: 'A positive number followed by m, h or d, e.g. "5m", "1h", "1d"',
+    });
+  }
+  return Number(match[1]) * UNIT_SECONDS[match[2]];
+}
+
+/**
+ * Implied YES probability before and after one BetPlaced event
+ */
+function probabilities(data: Record<string, any>): { before: number; after: number } {
+  const yesPool = BigInt(data.newYesPool);
+  const noPool = BigInt(data.newNoPool);
+  const net = BigInt(data.netAmount);
+
+  return {
+    before: impliedOdds({
+      yesPool: data.betYes ? yesPool - net : yesPool,
+      noPool: data.betYes ? noPool : noPool - net,
+    }).yesProbability,
+    after: impliedOdds({ yesPool, noPool }).yesProbability,
+  };
+}
+
+/**
+ * Build implied-probability candles from a market's BetPlaced events
+ *
+ * Buckets between the first and last bet without any bets are filled with
+ * flat candles at the previous close, so the series has no gaps. Only the
+ * newest MAX_CANDLES buckets are built; bets before them still count towards
+ * the summary, and the first candle opens at the odds they left.
+ *
+ * @param events - BetPlaced events of one market, in chronological order
+ * @param bucketSeconds - Candle width in seconds
+ */
+export function buildOddsCandles(events: IndexedEvent[], bucketSeconds: number): OddsHistory {
+  const bets = events.filter((event) => event.name === 'betPlaced' && event.blockTime !== null);
+  const currency: Currency | null = bets[0]?.data.currencyType ?? null;
+  const format = (units: bigint) => (currency ? formatAmount(units, currency) : units.toString());
+
+  const candles: OddsCandle[] = [];
+  const volumes: Array<{ yes: bigint; no: bigint }> = [];
+  let firstProbability: number | null = null;
+  let lastProbability: number | null = null;
+  let totalVolume = 0n;
+
+  const bucketOf = (event: IndexedEvent) => Math.floor(event.blockTime! / bucketSeconds) * bucketSeconds;
+  const windowStart = bets.length > 0
+    ? bucketOf(bets[bets.length - 1]) - (MAX_CANDLES - 1) * bucketSeconds
+    : 0;
+  const truncated = bets.length > 0 && bucketOf(bets[0]) < windowStart;
+
+  for (const event of bets) {
+    const time = bucketOf(event);
+    const { before, after } = probabilities(event.data);
+    const amount = BigInt(event.data.amount);
+    firstProbability ??= before;
+    totalVolume += amount;
+
+    // Bets before the window only move the odds the window opens at
+    if (time < windowStart) {
+      lastProbability = after;
+      continue;
+    }
+
+    // Flat candles for empty buckets since the previous bet, or since the
+    // window start at the odds carried from before it
+    let last = candles[candles.length - 1];
+    let gap = last ? last.time + bucketSeconds : lastProbability !== null ? windowStart : time;
+    while (gap < time) {
+      const close = last?.close ?? lastProbability!;
+      candles.push({
+        time: gap,
+        start: new Date(gap * 1000).toISOString(),
+        open: close,
+        high: close,
+        low: close,
+        close,
+        bets: 0,
+        volume: '0',
+        yesVolume: '0',
+        noVolume: '0',
+      });
+      volumes.push({ yes: 0n, no: 0n });
+      last = candles[candles.length - 1];
+      gap += bucketSeconds;
+    }
+
+    if (!last || last.time !== time) {
+      candles.push({
+        time,
+        start: new Date(time * 1000).toISOString(),
+        open: before,
+        high: before,
+        low: before,
+        close: before,
+        bets: 0,
+        volume: '0',
+        yesVolume: '0',
+        noVolume: '0',
+      });
+      volumes.push({ yes: 0n, no: 0n });
+    }
+
+    const candle = candles[candles.length - 1];
+    const volume = volumes[volumes.length - 1];
+    candle.high = Math.max(candle.high, after);
+    candle.low = Math.min(candle.low, after);
+    candle.close = after;
+    candle.bets++;
+    if (event.data.betYes) volume.yes += amount;
+    else volume.no += amount;
+    lastProbability = after;
+  }
+
+  for (const [i, candle] of candles.entries()) {
+    candle.volume = format(volumes[i].yes + volumes[i].no);
+    candle.yesVolume = format(volumes[i].yes);
+    candle.noVolume = format(volumes[i].no);
+  }
+
+  return {
+    bucketSeconds,
+    currencyType: currency,
+    candles,
+    truncated,
+    summary: {
+      bets: bets.length,
+      volume: format(totalVolume),
+      firstProbability,
+      lastProbability,
+      change: firstProbability !== null && lastProbability !== null ? lastProbability - firstProbability : null,
+    },
+  };
+}
+
+/**
+ * Odds history of one market from the local event index
+ *
+ * @param connection - Solana connection, used to bring the index up to date
+ * @param indexDir - Directory holding the event index
+ * @param marketId - Numeric market ID or market address
+ * @param bucket - Candle width such as "5m", "1h" or "1d"
+ * @param range - Optional time range in unix seconds and whether to sync the index first
+ */
+export async function getOddsHistory(
+  connection: Connection,
+  indexDir: string,
+  marketId: string | number,
+  bucket: string,
+  range: { since?: number; until?: number; refresh?: boolean } = {}
+) {
+  const bucketSeconds = parseBucket(bucket);
+  const marketAddress = resolveMarketAddress(marketId).toString();
+
+  if (range.refresh ?? true) {
+    await syncEventIndex(connection, indexDir);
+  }
+
+  const checkpoint = readCheckpoint(indexDir);
+  const events = readIndexedEvents(indexDir, {
+    names: ['betPlaced'],
+    marketAddress,
+    since: range.since,
+    until: range.until,
+  });
+
+  return {
+    marketAddress,
+    bucket,
+    ...buildOddsCandles(events, bucketSeconds),
+    index: {
+      backfillComplete: checkpoint.backfillComplete,
+      updatedAt: checkpoint.updatedAt,
+    },
+    source: 'index',
+  };
+}
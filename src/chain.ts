@@ -0,0 +1,441 @@
+/**
+ * On-Chain Data Source
+ *
+ * Reads Market, UserPosition and Protocol accounts directly from Solana and
+ * decodes them with the Anchor coder, as a free alternative to the x402 API.
+ */
+
+import BN from 'bn.js';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import {
+  USDC_MINT_DEVNET,
+  getMarketPda,
+  getProgram,
+  getProtocolPda,
+  getUserPositionPda,
+  toCurrencyType,
+  toPlainObject,
+  viewMarketStats,
+  viewProtocolStats,
+  viewUserPositionStats,
+} from './betting.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { Currency, formatAmount, parseAmount } from './amounts.js';
+import { BettingError, BettingErrorCode, createInvalidInputError, createProgramError } from './errors.js';
+import { calculateBetOutcome } from './parimutuel.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReadSource = 'api' | 'chain' | 'auto';
+
+export interface MarketOdds {
+  yesPool: string;
+  noPool: string;
+  totalPool: string;
+  /** Implied probability of YES (yes_pool / total_pool), 0.5 for an empty market */
+  yesProbability: number;
+  noProbability: number;
+  /** Gross payout per unit staked if the side wins (total_pool / side_pool), null for an empty side */
+  yesPayoutMultiplier: number | null;
+  noPayoutMultiplier: number | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Anchor program client for read-only access. Reads never sign, so an
+ * ephemeral keypair is enough for the provider.
+ */
+export function getReadOnlyProgram(connection: Connection) {
+  return getProgram(connection, Keypair.generate());
+}
+
+/**
+ * Resolve a market identifier to its on-chain address
+ * @param marketId - Numeric on-chain market ID or base58 market address
+ */
+export function resolveMarketAddress(marketId: string | number): PublicKey {
+  const value = String(marketId).trim();
+
+  if (/^\d+$/.test(value)) {
+    return getMarketPda(new BN(value))[0];
+  }
+
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw createInvalidInputError(
+      `Market "${value}" is neither a numeric market ID nor a market address`,
+      { marketId: value }
+    );
+  }
+}
+
+/**
+ * Compute implied odds from pool sizes (in smallest units)
+ */
+export function computeOdds(yesPool: BN, noPool: BN): MarketOdds {
+  const total = yesPool.add(noPool);
+  const yes = parseFloat(yesPool.toString());
+  const no = parseFloat(noPool.toString());
+  const sum = yes + no;
+
+  return {
+    yesPool: yesPool.toString(),
+    noPool: noPool.toString(),
+    totalPool: total.toString(),
+    yesProbability: sum > 0 ? yes / sum : 0.5,
+    noProbability: sum > 0 ? no / sum : 0.5,
+    yesPayoutMultiplier: yes > 0 ? sum / yes : null,
+    noPayoutMultiplier: no > 0 ? sum / no : null,
+  };
+}
+
+/**
+ * Run a view instruction simulation, returning null if it fails
+ * (e.g. the fee payer has no SOL) so callers can use decoded accounts instead
+ */
+async function tryView<T>(view: () => Promise<T>): Promise<T | null> {
+  try {
+    return await view();
+  } catch (error) {
+    console.error(`⚠️  View simulation failed, using decoded accounts: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+function notFound(kind: string, address: PublicKey): BettingError {
+  return new BettingError(
+    BettingErrorCode.ACCOUNT_NOT_FOUND,
+    `${kind} account ${address.toString()} not found on chain`,
+    'Check that the market ID or address and the network are correct.',
+    false,
+    { address: address.toString() }
+  );
+}
+
+// ============================================================================
+// Readers
+// ============================================================================
+
+/**
+ * Fetch the raw Anchor-decoded Market account (BN / PublicKey fields)
+ */
+export async function fetchMarketAccount(
+  connection: Connection,
+  marketId: string | number
+): Promise<{ address: PublicKey; account: any }> {
+  const address = resolveMarketAddress(marketId);
+  const program = getReadOnlyProgram(connection);
+  const account = await (program.account as any).market.fetchNullable(address);
+
+  if (!account) throw notFound('Market', address);
+  return { address, account };
+}
+
+/**
+ * Fetch the raw Anchor-decoded Protocol account
+ */
+export async function fetchProtocolAccount(connection: Connection): Promise<any> {
+  const [protocolPda] = getProtocolPda();
+  const program = getReadOnlyProgram(connection);
+  const account = await (program.account as any).protocol.fetchNullable(protocolPda);
+
+  if (!account) throw notFound('Protocol', protocolPda);
+  return account;
+}
+
+/**
+ * Fetch the raw Anchor-decoded UserPosition account of a wallet in a market
+ */
+export async function fetchUserPositionAccount(
+  connection: Connection,
+  marketAddress: PublicKey,
+  user: PublicKey
+): Promise<{ address: PublicKey; account: any }> {
+  const [address] = getUserPositionPda(marketAddress, user);
+  const program = getReadOnlyProgram(connection);
+  const account = await (program.account as any).userPosition.fetchNullable(address);
+
+  if (!account) throw notFound('UserPosition', address);
+  return { address, account };
+}
+
+/**
+ * Currency of a market from its Market account
+ * @param requested - Currency passed by the caller, rejected if it differs from the market's
+ */
+export async function fetchMarketCurrency(
+  connection: Connection,
+  marketId: string | number,
+  requested?: Currency
+): Promise<Currency> {
+  const { address, account } = await fetchMarketAccount(connection, marketId);
+  const currency = toCurrencyType(account.currencyType);
+
+  if (requested && requested !== currency) {
+    throw createProgramError(
+      'WrongCurrencyType',
+      `Market ${address.toString()} is a ${currency} market, not ${requested}`
+    );
+  }
+  return currency;
+}
+
+/**
+ * Read market details from the Market account
+ */
+export async function getMarketFromChain(connection: Connection, marketId: string | number) {
+  const { address, account } = await fetchMarketAccount(connection, marketId);
+  const now = Math.floor(Date.now() / 1000);
+
+  return {
+    ...toPlainObject(account),
+    address: address.toString(),
+    currencyType: toCurrencyType(account.currencyType),
+    bettingEndsAt: new Date(account.bettingEnds.toNumber() * 1000).toISOString(),
+    resolutionTimeAt: new Date(account.resolutionTime.toNumber() * 1000).toISOString(),
+    isBettingOpen: !account.isResolved && now < account.bettingEnds.toNumber(),
+    odds: computeOdds(account.yesPool, account.noPool),
+    source: 'chain',
+  };
+}
+
+/**
+ * Read current odds from the Market account pools
+ *
+ * When a wallet is given, the program's get_market_stats view is simulated
+ * and its own odds, is_betting_open and can_resolve are included.
+ */
+export async function getMarketOddsFromChain(
+  connection: Connection,
+  marketId: string | number,
+  wallet?: Keypair
+) {
+  const { address, account } = await fetchMarketAccount(connection, marketId);
+  const stats = wallet
+    ? await tryView(() => viewMarketStats(connection, wallet, address.toString()))
+    : null;
+
+  return {
+    marketId: account.id.toString(),
+    address: address.toString(),
+    currencyType: toCurrencyType(account.currencyType),
+    isResolved: account.isResolved,
+    outcome: account.outcome,
+    ...computeOdds(account.yesPool, account.noPool),
+    programStats: stats
+      ? {
+          yesOdds: stats.yesOdds,
+          noOdds: stats.noOdds,
+          isBettingOpen: stats.isBettingOpen,
+          canResolve: stats.canResolve,
+        }
+      : null,
+    computedBy: stats ? 'program' : 'client',
+    source: 'chain',
+  };
+}
+
+/**
+ * Read a wallet's position in a market from its UserPosition account
+ *
+ * When a wallet is given, the program's get_user_position_stats view is
+ * simulated and its potential payouts and net position are included.
+ */
+export async function getUserPositionFromChain(
+  connection: Connection,
+  marketId: string | number,
+  walletAddress: string,
+  wallet?: Keypair
+) {
+  const { address: marketAddress, account: market } = await fetchMarketAccount(connection, marketId);
+
+  let user: PublicKey;
+  try {
+    user = new PublicKey(walletAddress);
+  } catch {
+    throw createInvalidInputError(`Invalid wallet address: ${walletAddress}`);
+  }
+
+  const [positionPda] = getUserPositionPda(marketAddress, user);
+  const program = getReadOnlyProgram(connection);
+  const position = await (program.account as any).userPosition.fetchNullable(positionPda);
+  const stats = wallet && position
+    ? await tryView(() =>
+        viewUserPositionStats(connection, wallet, marketAddress.toString(), walletAddress)
+      )
+    : null;
+
+  return {
+    marketId: market.id.toString(),
+    marketAddress: marketAddress.toString(),
+    positionAddress: positionPda.toString(),
+    walletAddress,
+    currencyType: toCurrencyType(market.currencyType),
+    hasPosition: position !== null,
+    position: position ? toPlainObject(position) : null,
+    programStats: stats
+      ? {
+          netPosition: stats.netPosition.toString(),
+          potentialPayoutYes: stats.potentialPayoutYes.toString(),
+          potentialPayoutNo: stats.potentialPayoutNo.toString(),
+        }
+      : null,
+    computedBy: stats ? 'program' : 'client',
+    market: {
+      title: market.title,
+      isResolved: market.isResolved,
+      outcome: market.outcome,
+      ...computeOdds(market.yesPool, market.noPool),
+    },
+    source: 'chain',
+  };
+}
+
+/**
+ * Read protocol-wide statistics from the Protocol account
+ *
+ * When a wallet is given, the program's get_protocol_stats view is simulated
+ * and returned instead of the raw account.
+ */
+export async function getProtocolStatsFromChain(connection: Connection, wallet?: Keypair) {
+  const stats = wallet ? await tryView(() => viewProtocolStats(connection, wallet)) : null;
+  if (stats) {
+    return {
+      ...toPlainObject(stats),
+      address: getProtocolPda()[0].toString(),
+      computedBy: 'program',
+      source: 'chain',
+    };
+  }
+
+  const account = await fetchProtocolAccount(connection);
+
+  return {
+    ...toPlainObject(account),
+    address: getProtocolPda()[0].toString(),
+    whitelistedOraclesCount: account.whitelistedOracles.length,
+    computedBy: 'client',
+    source: 'chain',
+  };
+}
+
+/**
+ * Compute a bet outcome locally from the Market pools and Protocol fee rates
+ *
+ * @param connection - Solana connection
+ * @param marketId - Numeric market ID or market address
+ * @param amount - Decimal stake in the market currency
+ * @param betYes - Side of the bet
+ * @param walletAddress - Optional bettor whose existing position is included in the payouts
+ */
+export async function calculateBetOutcomeFromChain(
+  connection: Connection,
+  marketId: string | number,
+  amount: string,
+  betYes: boolean,
+  walletAddress?: string
+) {
+  const { address, account: market } = await fetchMarketAccount(connection, marketId);
+  const protocol = await fetchProtocolAccount(connection);
+  const currency = toCurrencyType(market.currencyType);
+
+  let position = { yesAmount: 0n, noAmount: 0n };
+  if (walletAddress) {
+    let user: PublicKey;
+    try {
+      user = new PublicKey(walletAddress);
+    } catch {
+      throw createInvalidInputError(`Invalid wallet address: ${walletAddress}`);
+    }
+
+    const [positionPda] = getUserPositionPda(address, user);
+    const program = getReadOnlyProgram(connection);
+    const account = await (program.account as any).userPosition.fetchNullable(positionPda);
+    if (account) {
+      position = {
+        yesAmount: BigInt(account.yesAmount.toString()),
+        noAmount: BigInt(account.noAmount.toString()),
+      };
+    }
+  }
+
+  const outcome = calculateBetOutcome(
+    { yesPool: BigInt(market.yesPool.toString()), noPool: BigInt(market.noPool.toString()) },
+    { creatorFeeBps: protocol.creatorFeeBps, protocolFeeBps: protocol.protocolFeeBps },
+    parseAmount(amount, currency),
+    betYes,
+    position
+  );
+  const now = Math.floor(Date.now() / 1000);
+
+  return {
+    marketId: market.id.toString(),
+    address: address.toString(),
+    title: market.title,
+    currencyType: currency,
+    isBettingOpen: !market.isResolved && now < market.bettingEnds.toNumber(),
+    fees: { creatorFeeBps: protocol.creatorFeeBps, protocolFeeBps: protocol.protocolFeeBps },
+    ...toPlainObject(outcome),
+    formatted: {
+      amount: formatAmount(outcome.amount, currency),
+      totalFee: formatAmount(outcome.totalFee, currency),
+      netAmount: formatAmount(outcome.netAmount, currency),
+      betPayoutIfWins: formatAmount(outcome.betPayoutIfWins, currency),
+      betProfitIfWins: formatAmount(outcome.betProfitIfWins, currency),
+      payoutIfYes: formatAmount(outcome.payoutIfYes, currency),
+      payoutIfNo: formatAmount(outcome.payoutIfNo, currency),
+    },
+    computedBy: 'client',
+    source: 'chain',
+  };
+}
+
+/**
+ * Read a wallet's balance in smallest units (lamports or micro-USDC)
+ */
+export async function getWalletBalance(
+  connection: Connection,
+  owner: PublicKey,
+  currency: Currency
+): Promise<bigint> {
+  if (currency === 'SOL') {
+    return BigInt(await connection.getBalance(owner));
+  }
+
+  const tokenAccount = getAssociatedTokenAddressSync(USDC_MINT_DEVNET, owner);
+  try {
+    const balance = await connection.getTokenAccountBalance(tokenAccount);
+    return BigInt(balance.value.amount);
+  } catch {
+    // No USDC token account yet
+    return 0n;
+  }
+}
+
+/**
+ * Run a chain read according to the requested source
+ *
+ * - "chain": read from chain, errors propagate
+ * - "auto": read from chain, return null on failure so the caller falls back to the API
+ * - "api": return null immediately
+ */
+export async function readFromChain<T>(
+  source: ReadSource,
+  read: () => Promise<T>
+): Promise<T | null> {
+  if (source === 'api') return null;
+  if (source === 'chain') return read();
+
+  try {
+    return await read();
+  } catch (error) {
+    console.error(`⚠️  Chain read failed, falling back to API: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * Two-Phase Bet Confirmation
+ *
+ * prepare_bet validates the market and simulates the bet, then stores it
+ * behind a short-lived confirmation token. confirm_bet executes only a bet
+ * that was prepared this way, so a human can approve it in between.
+ */
+
+import { randomBytes } from 'crypto';
+import { Connection, Keypair } from '@solana/web3.js';
+import { BetResult, SimulationResult, placeBet, toCurrencyType } from './betting.js';
+import { fetchMarketAccount } from './chain.js';
+import { placePaperBet } from './paper.js';
+import { PolicyConfig, checkBet, placeBetWithPolicy } from './policy.js';
+import {
+  BettingError,
+  BettingErrorCode,
+  createInvalidInputError,
+  createProgramError,
+} from './errors.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BetRequest {
+  marketAddress: string;
+  marketId: number;
+  /** Decimal amount as entered (e.g. "0.5") */
+  amount: string;
+  /** Amount in smallest units (lamports or micro-USDC) */
+  amountSmallest: string;
+  betYes: boolean;
+  currencyType: 'SOL' | 'USDC';
+  /** Market category, used by the spending policy */
+  category?: string;
+}
+
+export interface PreparedBet extends BetRequest {
+  confirmationToken: string;
+  marketTitle: string;
+  preparedAt: string;
+  expiresAt: string;
+  /** Fees deducted from the stake, in smallest units */
+  fees: string | null;
+  /** Stake added to the pool after fees, in smallest units */
+  netAmount: string | null;
+  /** Payout of this bet alone if its side wins, in smallest units */
+  expectedPayout: string | null;
+  simulation: SimulationResult;
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/** Prepared bets by confirmation token, kept in memory only */
+const preparedBets = new Map<string, PreparedBet>();
+
+/**
+ * Drop prepared bets whose token has expired
+ */
+function pruneExpired(now: number = Date.now()): void {
+  for (const [token, bet] of preparedBets) {
+    if (Date.parse(bet.expiresAt) <= now) preparedBets.delete(token);
+  }
+}
+
+/**
+ * Look up a prepared bet, removing it from the store when it is consumed so
+ * its token can only be used once
+ */
+function getPreparedBet(token: string, consume: boolean): PreparedBet {
+  const bet = preparedBets.get(token);
+  if (consume) preparedBets.delete(token);
+
+  if (!bet) {
+    throw createInvalidInputError(`Unknown confirmation token: ${token}`, {
+      possibleReasons: [
+        'Token already used',
+        'Token expired and was pruned',
+        'Server restarted since prepare_bet (tokens are kept in memory)',
+      ],
+    });
+  }
+
+  if (Date.parse(bet.expiresAt) <= Date.now()) {
+    throw new BettingError(
+      BettingErrorCode.TRANSACTION_EXPIRED,
+      `Confirmation token expired at ${bet.expiresAt}`,
+      'Call prepare_bet again to get fresh odds and a new token.',
+      true,
+      { expiresAt: bet.expiresAt }
+    );
+  }
+
+  return bet;
+}
+
+// ============================================================================
+// Payout Estimation
+// ============================================================================
+
+/**
+ * Estimate the payout of a bet from its simulated BetPlaced event
+ *
+ * Parimutuel payout if the side wins: net_amount * total_pool / side_pool,
+ * using the pools after the bet.
+ */
+function estimatePayout(event: Record<string, any>, betYes: boolean): string | null {
+  const yesPool = BigInt(event.newYesPool);
+  const noPool = BigInt(event.newNoPool);
+  const sidePool = betYes ? yesPool : noPool;
+  if (sidePool === 0n) return null;
+
+  return ((BigInt(event.netAmount) * (yesPool + noPool)) / sidePool).toString();
+}
+
+// ============================================================================
+// Prepare / Confirm
+// ============================================================================
+
+/**
+ * Validate a bet against the Market account, simulate it and store it behind
+ * a confirmation token
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the bettor (simulation fee payer)
+ * @param request - Bet parameters
+ * @param ttlMs - How long the confirmation token stays valid
+ * @param policy - Spending policy to evaluate, if one is loaded
+ * @returns The prepared bet with token, expiry, simulation and expected payout
+ */
+export async function prepareBet(
+  connection: Connection,
+  wallet: Keypair,
+  request: BetRequest,
+  ttlMs: number,
+  policy: PolicyConfig | null = null
+): Promise<PreparedBet> {
+  pruneExpired();
+
+  const { account: market } = await fetchMarketAccount(connection, request.marketAddress);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (market.id.toString() !== String(request.marketId)) {
+    throw createInvalidInputError(
+      `Market ${request.marketAddress} has ID ${market.id.toString()}, not ${request.marketId}`,
+      { marketAddress: request.marketAddress, marketId: request.marketId }
+    );
+  }
+  if (market.isResolved) {
+    throw createProgramError('MarketAlreadyResolved');
+  }
+  if (now >= market.bettingEnds.toNumber()) {
+    throw createProgramError('BettingEnded', undefined, {
+      bettingEnds: new Date(market.bettingEnds.toNumber() * 1000).toISOString(),
+    });
+  }
+  if (toCurrencyType(market.currencyType) !== request.currencyType) {
+    throw createProgramError(
+      'WrongCurrencyType',
+      `Market ${request.marketAddress} is a ${toCurrencyType(market.currencyType)} market`
+    );
+  }
+
+  if (policy) {
+    await checkBet(connection, policy, {
+      marketAddress: request.marketAddress,
+      currencyType: request.currencyType,
+      amount: request.amountSmallest,
+      category: request.category,
+    });
+  }
+
+  const result = await placeBet(
+    connection,
+    wallet,
+    request.marketAddress,
+    request.marketId,
+    request.amountSmallest,
+    request.betYes,
+    request.currencyType,
+    true
+  );
+  const simulation = result.simulation!;
+
+  if (!simulation.wouldSucceed || !result.event) {
+    const error = simulation.error;
+    throw new BettingError(
+      error?.code ?? BettingErrorCode.UNKNOWN,
+      `Bet simulation failed: ${error?.message ?? 'no BetPlaced event emitted'}`,
+      error?.remedy ?? 'Check the simulation logs.',
+      error?.retryable ?? false,
+      { logs: simulation.logs }
+    );
+  }
+
+  const event = result.event;
+  const preparedAt = new Date();
+  const prepared: PreparedBet = {
+    ...request,
+    confirmationToken: randomBytes(16).toString('hex'),
+    marketTitle: market.title,
+    preparedAt: preparedAt.toISOString(),
+    expiresAt: new Date(preparedAt.getTime() + ttlMs).toISOString(),
+    fees: (BigInt(event.amount) - BigInt(event.netAmount)).toString(),
+    netAmount: event.netAmount,
+    expectedPayout: estimatePayout(event, request.betYes),
+    simulation,
+  };
+
+  preparedBets.set(prepared.confirmationToken, prepared);
+
+  console.error(`\n📝 BET PREPARED`);
+  console.error(`${'='.repeat(60)}`);
+  console.error(`   Market: ${market.title}`);
+  console.error(`   Amount: ${request.amount} ${request.currencyType} on ${request.betYes ? 'YES' : 'NO'}`);
+  console.error(`   Expires: ${prepared.expiresAt}`);
+  console.error(`${'='.repeat(60)}\n`);
+
+  return prepared;
+}
+
+/**
+ * Execute a previously prepared bet
+ *
+ * A submitted bet consumes the token whether or not the transaction
+ * succeeds; a dry run leaves it in the store, so the approved bet can still
+ * be confirmed for real. The spending policy is evaluated again, since
+ * other bets may have used up headroom since the bet was prepared. In paper
+ * trading the confirmed bet is recorded in the paper ledger instead.
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the bettor
+ * @param confirmationToken - Token returned by prepareBet
+ * @param dryRun - Simulate the transaction instead of submitting it
+ * @param policy - Spending policy to evaluate, if one is loaded
+ * @param paperLedgerPath - Record the bet in this paper ledger instead (paper trading)
+ * @returns The prepared bet and either the bet result or the recorded paper bet
+ */
+export async function confirmBet(
+  connection: Connection,
+  wallet: Keypair,
+  confirmationToken: string,
+  dryRun: boolean = false,
+  policy: PolicyConfig | null = null,
+  paperLedgerPath: string | null = null
+): Promise<
+  | { bet: PreparedBet; result: BetResult; paper: null }
+  | { bet: PreparedBet; result: null; paper: Awaited<ReturnType<typeof placePaperBet>> }
+> {
+  const bet = getPreparedBet(confirmationToken, !dryRun);
+  pruneExpired();
+
+  if (paperLedgerPath && !dryRun) {
+    const paper = await placePaperBet(
+      connection,
+      paperLedgerPath,
+      {
+        marketAddress: bet.marketAddress,
+        marketId: bet.marketId,
+        amount: bet.amountSmallest,
+        betYes: bet.betYes,
+        currencyType: bet.currencyType,
+        category: bet.category,
+      },
+      policy
+    );
+    return { bet, result: null, paper };
+  }
+
+  const result = await placeBetWithPolicy(
+    connection,
+    wallet,
+    policy,
+    {
+      marketAddress: bet.marketAddress,
+      marketId: bet.marketId,
+      currencyType: bet.currencyType,
+      amount: bet.amountSmallest,
+      betYes: bet.betYes,
+      category: bet.category,
+    },
+    dryRun
+  );
+
+  return { bet, result, paper: null };
+}
@@ -0,0 +1,520 @@
+/**
+ * Scheduled DCA Bets
+ *
+ * Splits a large stake into equal slices spread over a time window that ends
+ * before betting closes, so each entry moves the pools less. Schedules are
+ * stored on disk and a polling loop places each slice when it comes due.
+ */
+
+import { randomBytes } from 'crypto';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { formatAmount, parseAmount } from './amounts.js';
+import {
+  MIN_BET_SOL,
+  MIN_BET_USDC,
+  SubmittedTransaction,
+  findTransactionEvent,
+  getSubmissionStatus,
+  getSubmittedTransaction,
+  throwIfSimulationFailed,
+  toCurrencyType,
+} from './betting.js';
+import { fetchMarketAccount, getReadOnlyProgram } from './chain.js';
+import { BettingError, createInvalidInputError, createProgramError, decodeError } from './errors.js';
+import { placePaperBet } from './paper.js';
+import { PolicyConfig, placeBetWithPolicy } from './policy.js';
+import { readJsonFile, writeJsonFile } from './storage.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ScheduleStatus = 'active' | 'completed' | 'cancelled' | 'expired';
+
+export type SliceStatus = 'pending' | 'filled' | 'failed' | 'skipped';
+
+export interface DcaSlice {
+  index: number;
+  /** Stake in smallest units */
+  amount: string;
+  scheduledAt: string;
+  status: SliceStatus;
+  executedAt: string | null;
+  signature: string | null;
+  event: Record<string, any> | null;
+  dryRun: boolean;
+  /** Paper ledger bet that filled the slice in paper-trading mode */
+  paperBetId?: string | null;
+  error: ReturnType<BettingError['toJSON']> | null;
+  /** Transaction of a failed attempt that may still have landed, checked before the next slice */
+  submitted?: SubmittedTransaction | null;
+}
+
+export interface DcaSchedule {
+  id: string;
+  status: ScheduleStatus;
+  marketAddress: string;
+  marketId: number;
+  title: string;
+  currencyType: 'SOL' | 'USDC';
+  betYes: boolean;
+  /** Total stake in smallest units */
+  totalAmount: string;
+  category: string | null;
+  startAt: string;
+  endAt: string;
+  slices: DcaSlice[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DcaRequest {
+  marketAddress: string;
+  totalAmount: string;
+  betYes: boolean;
+  sliceCount: number;
+  /** Unix seconds, defaults to now */
+  startAt?: number;
+  /** Unix seconds, must be before betting_ends */
+  endAt: number;
+  category?: string;
+}
+
+type Store = Record<string, DcaSchedule>;
+
+/** Most slices a schedule may have */
+const MAX_SLICES = 100;
+
+// ============================================================================
+// Store
+// ============================================================================
+
+function readSchedules(storePath: string): Store {
+  return readJsonFile<Store>(storePath, {});
+}
+
+function saveSchedule(storePath: string, schedule: DcaSchedule): DcaSchedule {
+  const store = readSchedules(storePath);
+  const saved = { ...schedule, updatedAt: new Date().toISOString() };
+  store[schedule.id] = saved;
+  writeJsonFile(storePath, store);
+  return saved;
+}
+
+/**
+ * Split a total into N slices; the remainder goes to the last slice
+ */
+function splitAmount(total: bigint, count: number): bigint[] {
+  const slice = total / BigInt(count);
+  const slices = Array.from({ length: count }, () => slice);
+  slices[count - 1] += total - slice * BigInt(count);
+  return slices;
+}
+
+/**
+ * Create a DCA schedule after validating the market and the time window
+ *
+ * @param connection - Solana connection
+ * @param storePath - JSON file holding the schedules
+ * @param request - Market, total stake, side, number of slices and time window
+ * @returns The stored schedule
+ */
+export async function createDcaSchedule(
+  connection: Connection,
+  storePath: string,
+  request: DcaRequest
+): Promise<DcaSchedule> {
+  const now = Math.floor(Date.now() / 1000);
+  const startAt = request.startAt ?? now;
+
+  if (!Number.isInteger(request.sliceCount) || request.sliceCount < 1 || request.sliceCount > MAX_SLICES) {
+    throw createInvalidInputError(`sliceCount must be an integer between 1 and ${MAX_SLICES}`);
+  }
+  if (request.endAt <= startAt || request.endAt <= now) {
+    throw createInvalidInputError('endAt must be in the future and after startAt', {
+      startAt: new Date(startAt * 1000).toISOString(),
+      endAt: new Date(request.endAt * 1000).toISOString(),
+    });
+  }
+
+  const { address, account: market } = await fetchMarketAccount(connection, request.marketAddress);
+  const currency = toCurrencyType(market.currencyType);
+  const bettingEnds = market.bettingEnds.toNumber();
+
+  if (market.isResolved) {
+    throw createProgramError('MarketAlreadyResolved');
+  }
+  if (request.endAt >= bettingEnds) {
+    throw createProgramError(
+      'BettingEnded',
+      `endAt must be before betting ends at ${new Date(bettingEnds * 1000).toISOString()}`
+    );
+  }
+
+  const total = parseAmount(request.totalAmount, currency);
+  const amounts = splitAmount(total, request.sliceCount);
+  const minBet = BigInt((currency === 'SOL' ? MIN_BET_SOL : MIN_BET_USDC).toString());
+  if (amounts[0] < minBet) {
+    throw createProgramError(
+      'BetTooSmall',
+      `Each slice would be ${formatAmount(amounts[0], currency)} ${currency}, below the minimum bet of ` +
+        `${formatAmount(minBet, currency)} ${currency}. Use fewer slices or a larger total.`
+    );
+  }
+
+  const step = request.sliceCount > 1 ? (request.endAt - startAt) / (request.sliceCount - 1) : 0;
+  const createdAt = new Date().toISOString();
+
+  return saveSchedule(storePath, {
+    id: randomBytes(8).toString('hex'),
+    status: 'active',
+    marketAddress: address.toString(),
+    marketId: market.id.toNumber(),
+    title: market.title,
+    currencyType: currency,
+    betYes: request.betYes,
+    totalAmount: total.toString(),
+    category: request.category ?? null,
+    startAt: new Date(startAt * 1000).toISOString(),
+    endAt: new Date(request.endAt * 1000).toISOString(),
+    slices: amounts.map((amount, index) => ({
+      index,
+      amount: amount.toString(),
+      scheduledAt: new Date(Math.round((startAt + step * index) * 1000)).toISOString(),
+      status: 'pending',
+      executedAt: null,
+      signature: null,
+      event: null,
+      dryRun: false,
+      paperBetId: null,
+      error: null,
+      submitted: null,
+    })),
+    createdAt,
+    updatedAt: createdAt,
+  });
+}
+
+/**
+ * Summarize the progress of a schedule
+ */
+export function getDcaProgress(schedule: DcaSchedule) {
+  const filled = schedule.slices.filter((s) => s.status === 'filled');
+  const next = schedule.slices.find((s) => s.status === 'pending');
+  const placed = filled.reduce((sum, s) => sum + BigInt(s.amount), 0n);
+
+  return {
+    id: schedule.id,
+    status: schedule.status,
+    title: schedule.title,
+    side: schedule.betYes ? 'YES' : 'NO',
+    currencyType: schedule.currencyType,
+    total: formatAmount(schedule.totalAmount, schedule.currencyType),
+    placed: formatAmount(placed, schedule.currencyType),
+    slicesFilled: filled.length,
+    slicesFailed: schedule.slices.filter((s) => s.status === 'failed').length,
+    slicesSkipped: schedule.slices.filter((s) => s.status === 'skipped').length,
+    slicesTotal: schedule.slices.length,
+    nextSliceAt: next?.scheduledAt ?? null,
+  };
+}
+
+/**
+ * List DCA schedules, newest first
+ *
+ * @param storePath - JSON file holding the schedules
+ * @param status - Optional status filter
+ */
+export function listDcaSchedules(storePath: string, status?: ScheduleStatus): DcaSchedule[] {
+  return Object.values(readSchedules(storePath))
+    .filter((schedule) => !status || schedule.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Get one DCA schedule
+ *
+ * @param storePath - JSON file holding the schedules
+ * @param id - Schedule ID
+ */
+export function getDcaSchedule(storePath: string, id: string): DcaSchedule {
+  const schedule = readSchedules(storePath)[id];
+  if (!schedule) {
+    throw createInvalidInputError(`DCA schedule ${id} not found`);
+  }
+  return schedule;
+}
+
+/**
+ * Cancel an active schedule; its pending slices are skipped
+ *
+ * @param storePath - JSON file holding the schedules
+ * @param id - Schedule ID
+ */
+export function cancelDcaSchedule(storePath: string, id: string): DcaSchedule {
+  const schedule = getDcaSchedule(storePath, id);
+  if (schedule.status !== 'active') {
+    throw createInvalidInputError(`DCA schedule ${id} is already ${schedule.status}`);
+  }
+
+  return saveSchedule(storePath, {
+    ...schedule,
+    status: 'cancelled',
+    slices: schedule.slices.map((s) => (s.status === 'pending' ? { ...s, status: 'skipped' } : s)),
+  });
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Settle the slices whose last attempt sent a transaction without confirming
+ * it: filled if it landed, failed if it failed on chain, and unchanged apart
+ * from the cleared transaction once it can no longer land
+ *
+ * @returns The saved schedule, and whether a transaction may still land
+ */
+async function resolveSubmissions(
+  connection: Connection,
+  storePath: string,
+  schedule: DcaSchedule
+): Promise<{ schedule: DcaSchedule; waiting: boolean }> {
+  const updates = new Map<number, DcaSlice>();
+  let waiting = false;
+
+  for (const slice of schedule.slices.filter((s) => s.submitted)) {
+    const submitted = slice.submitted!;
+    const { status, error } = await getSubmissionStatus(connection, submitted);
+
+    if (status === 'pending') {
+      waiting = true;
+    } else if (status === 'landed') {
+      console.error(`✅ DCA slice ${slice.index + 1} of ${schedule.id}: earlier transaction ${submitted.signature} landed`);
+      updates.set(slice.index, {
+        ...slice,
+        status: 'filled',
+        executedAt: new Date().toISOString(),
+        signature: submitted.signature,
+        event: await findTransactionEvent(connection, getReadOnlyProgram(connection), submitted.signature, 'betPlaced'),
+        dryRun: false,
+        error: null,
+        submitted: null,
+      });
+    } else if (status === 'failed') {
+      updates.set(slice.index, { ...slice, status: 'failed', error: error!.toJSON(), submitted: null });
+    } else {
+      updates.set(slice.index, { ...slice, submitted: null });
+    }
+  }
+
+  if (updates.size === 0) return { schedule, waiting };
+
+  const current = readSchedules(storePath)[schedule.id] ?? schedule;
+  const slices = current.slices.map((s) => updates.get(s.index) ?? s);
+  return {
+    schedule: saveSchedule(storePath, {
+      ...current,
+      status: current.status !== 'active' || slices.some((s) => s.status === 'pending') ? current.status : 'completed',
+      slices,
+    }),
+    waiting,
+  };
+}
+
+/**
+ * Place due slices of every active schedule
+ *
+ * At most one slice per schedule is placed per check, so slices missed while
+ * the server was down are caught up gradually rather than all at once.
+ * Retryable errors leave the slice pending; other errors mark it failed and
+ * the schedule moves on. If a failed attempt had already sent its
+ * transaction, no further slice is placed until that transaction is known
+ * to have been dropped; if it landed after all, the slice is marked filled.
+ * Schedules whose market closed expire.
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the bettor
+ * @param storePath - JSON file holding the schedules
+ * @param policy - Spending policy to evaluate, if one is loaded
+ * @param dryRun - Simulate slices instead of submitting them
+ * @param paperLedgerPath - Record slices in this paper ledger instead (paper trading)
+ * @returns Schedules that changed
+ */
+export async function runDueDcaSlices(
+  connection: Connection,
+  wallet: Keypair,
+  storePath: string,
+  policy: PolicyConfig | null = null,
+  dryRun: boolean = false,
+  paperLedgerPath: string | null = null
+): Promise<DcaSchedule[]> {
+  const schedules = listDcaSchedules(storePath)
+    .filter((schedule) => schedule.status === 'active' || schedule.slices.some((s) => s.submitted));
+  if (schedules.length === 0) return [];
+
+  const program = getReadOnlyProgram(connection);
+  const markets = await (program.account as any).market.fetchMultiple(
+    schedules.map((schedule) => new PublicKey(schedule.marketAddress))
+  );
+  const changed: DcaSchedule[] = [];
+
+  for (const [i, listed] of schedules.entries()) {
+    const market = markets[i];
+    const now = Date.now();
+
+    // Re-read: the schedule may have been cancelled while earlier slices were being placed
+    let schedule = readSchedules(storePath)[listed.id] ?? listed;
+
+    if (schedule.slices.some((s) => s.submitted)) {
+      try {
+        const resolved = await resolveSubmissions(connection, storePath, schedule);
+        if (resolved.schedule !== schedule) changed.push(resolved.schedule);
+        if (resolved.waiting) continue;
+        schedule = resolved.schedule;
+      } catch (error) {
+        console.error(`⚠️  Could not check the transactions of DCA schedule ${schedule.id}:`, decodeError(error).message);
+        continue;
+      }
+    }
+    if (schedule.status !== 'active') continue;
+
+    if (!market || market.isResolved || now >= market.bettingEnds.toNumber() * 1000) {
+      changed.push(saveSchedule(storePath, {
+        ...schedule,
+        status: 'expired',
+        slices: schedule.slices.map((s) => (s.status === 'pending' ? { ...s, status: 'skipped' } : s)),
+      }));
+      continue;
+    }
+
+    const slice = schedule.slices.find((s) => s.status === 'pending' && Date.parse(s.scheduledAt) <= now);
+    if (!slice) continue;
+
+    console.error(`\n📆 DCA SLICE ${slice.index + 1}/${schedule.slices.length}`);
+    console.error(`${'='.repeat(60)}`);
+    console.error(`   Schedule: ${schedule.id}`);
+    console.error(`   Market: ${schedule.title}`);
+    console.error(`   Amount: ${formatAmount(slice.amount, schedule.currencyType)} ${schedule.currencyType} on ${schedule.betYes ? 'YES' : 'NO'}`);
+    console.error(`${'='.repeat(60)}\n`);
+
+    let updated: DcaSlice;
+    try {
+      let fill: Pick<DcaSlice, 'signature' | 'event' | 'dryRun' | 'paperBetId'>;
+
+      if (paperLedgerPath) {
+        const { bet } = await placePaperBet(
+          connection,
+          paperLedgerPath,
+          {
+            marketAddress: schedule.marketAddress,
+            marketId: schedule.marketId,
+            amount: slice.amount,
+            betYes: schedule.betYes,
+            currencyType: schedule.currencyType,
+            category: schedule.category ?? undefined,
+          },
+          policy
+        );
+        fill = { signature: null, event: null, dryRun: true, paperBetId: bet.id };
+      } else {
+        const result = await placeBetWithPolicy(
+          connection,
+          wallet,
+          policy,
+          {
+            marketAddress: schedule.marketAddress,
+            marketId: schedule.marketId,
+            currencyType: schedule.currencyType,
+            amount: slice.amount,
+            betYes: schedule.betYes,
+            category: schedule.category ?? undefined,
+          },
+          dryRun
+        );
+        if (result.simulation) throwIfSimulationFailed(result.simulation);
+        fill = {
+          signature: result.signature,
+          event: result.event,
+          dryRun: result.simulation !== undefined,
+          paperBetId: null,
+        };
+      }
+
+      updated = {
+        ...slice,
+        status: 'filled',
+        executedAt: new Date().toISOString(),
+        ...fill,
+        error: null,
+      };
+    } catch (error) {
+      const bettingError = decodeError(error);
+      console.error(`❌ DCA slice ${slice.index + 1} of ${schedule.id} failed:`, bettingError.message);
+
+      updated = {
+        ...slice,
+        status: bettingError.retryable ? 'pending' : 'failed',
+        error: bettingError.toJSON(),
+        submitted: getSubmittedTransaction(bettingError),
+      };
+    }
+
+    // Apply only this slice to the stored schedule, which may have been
+    // cancelled while the bet was being placed
+    const current = readSchedules(storePath)[schedule.id] ?? schedule;
+    const cancelled = current.status !== 'active';
+    if (cancelled && updated.status === 'pending') updated = { ...updated, status: 'skipped' };
+
+    const slices = current.slices.map((s) => (s.index === slice.index ? updated : s));
+    changed.push(saveSchedule(storePath, {
+      ...current,
+      status: cancelled ? current.status : slices.some((s) => s.status === 'pending') ? 'active' : 'completed',
+      slices,
+    }));
+  }
+
+  return changed;
+}
+
+/**
+ * Start a background loop that places due DCA slices
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the bettor
+ * @param storePath - JSON file holding the schedules
+ * @param intervalMs - Delay between checks in milliseconds
+ * @param policy - Spending policy to evaluate, if one is loaded
+ * @param dryRun - Simulate slices instead of submitting them
+ * @param paperLedgerPath - Record slices in this paper ledger instead (paper trading)
+ * @returns Function that stops the loop
+ */
+export function startDcaRunner(
+  connection: Connection,
+  wallet: Keypair,
+  storePath: string,
+  intervalMs: number,
+  policy: PolicyConfig | null = null,
+  dryRun: boolean = false,
+  paperLedgerPath: string | null = null
+): () => void {
+  let running = false;
+
+  const run = async () => {
+    // Skip this tick if the previous run is still placing slices
+    if (running) return;
+    running = true;
+    try {
+      await runDueDcaSlices(connection, wallet, storePath, policy, dryRun, paperLedgerPath);
+    } catch (error) {
+      console.error('⚠️  DCA run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
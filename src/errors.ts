@@ -0,0 +1,432 @@
+/**
+ * Betting Error Layer
+ *
+ * Decodes Sol Bets V3 program errors (IDL codes 6000-6024) and common
+ * RPC failures into structured errors with a stable code, a human message,
+ * a suggested remedy and whether retrying can help.
+ */
+
+import IDL from '../sol_bets_v3.json' with { type: 'json' };
+
+export enum BettingErrorCode {
+  // Program errors (from the IDL errors table)
+  PROTOCOL_PAUSED = 'PROTOCOL_PAUSED',
+  TITLE_TOO_LONG = 'TITLE_TOO_LONG',
+  URI_TOO_LONG = 'URI_TOO_LONG',
+  BETTING_PERIOD_TOO_SHORT = 'BETTING_PERIOD_TOO_SHORT',
+  INVALID_RESOLUTION_TIME = 'INVALID_RESOLUTION_TIME',
+  BETTING_ENDED = 'BETTING_ENDED',
+  MARKET_ALREADY_RESOLVED = 'MARKET_ALREADY_RESOLVED',
+  MARKET_NOT_RESOLVED = 'MARKET_NOT_RESOLVED',
+  TOO_EARLY_TO_RESOLVE = 'TOO_EARLY_TO_RESOLVE',
+  RESOLUTION_EXPIRED = 'RESOLUTION_EXPIRED',
+  ORACLE_TIMEOUT_NOT_REACHED = 'ORACLE_TIMEOUT_NOT_REACHED',
+  BET_TOO_SMALL = 'BET_TOO_SMALL',
+  BET_TOO_LARGE = 'BET_TOO_LARGE',
+  ALREADY_CLAIMED = 'ALREADY_CLAIMED',
+  NOT_A_WINNER = 'NOT_A_WINNER',
+  NO_WINNING_BETS = 'NO_WINNING_BETS',
+  UNAUTHORIZED_ORACLE = 'UNAUTHORIZED_ORACLE',
+  UNAUTHORIZED_AUTHORITY = 'UNAUTHORIZED_AUTHORITY',
+  INSUFFICIENT_FUNDS = 'INSUFFICIENT_FUNDS',
+  INTEGER_OVERFLOW = 'INTEGER_OVERFLOW',
+  NEEDS_REFUND = 'NEEDS_REFUND',
+  INVALID_FEES = 'INVALID_FEES',
+  WRONG_CURRENCY_TYPE = 'WRONG_CURRENCY_TYPE',
+  INVALID_USDC_MINT = 'INVALID_USDC_MINT',
+  NO_PENDING_AUTHORITY = 'NO_PENDING_AUTHORITY',
+
+  // Client-side and transport errors
+  INVALID_INPUT = 'INVALID_INPUT',
+  INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
+  ACCOUNT_NOT_FOUND = 'ACCOUNT_NOT_FOUND',
+  TRANSACTION_EXPIRED = 'TRANSACTION_EXPIRED',
+  RPC_ERROR = 'RPC_ERROR',
+  API_ERROR = 'API_ERROR',
+  POLICY_VIOLATION = 'POLICY_VIOLATION',
+  UNKNOWN = 'UNKNOWN',
+}
+
+interface ErrorInfo {
+  code: BettingErrorCode;
+  retryable: boolean;
+  remedy: string;
+}
+
+/**
+ * Classification of each program error, keyed by the IDL error name
+ */
+const PROGRAM_ERROR_INFO: Record<string, ErrorInfo> = {
+  ProtocolPaused: {
+    code: BettingErrorCode.PROTOCOL_PAUSED,
+    retryable: true,
+    remedy: 'Wait for the protocol authority to unpause the protocol, then retry.',
+  },
+  TitleTooLong: {
+    code: BettingErrorCode.TITLE_TOO_LONG,
+    retryable: false,
+    remedy: 'Shorten the market title to 128 characters or fewer.',
+  },
+  UriTooLong: {
+    code: BettingErrorCode.URI_TOO_LONG,
+    retryable: false,
+    remedy: 'Use shorter description and image URIs.',
+  },
+  BettingPeriodTooShort: {
+    code: BettingErrorCode.BETTING_PERIOD_TOO_SHORT,
+    retryable: false,
+    remedy: 'Set bettingEnds further in the future.',
+  },
+  InvalidResolutionTime: {
+    code: BettingErrorCode.INVALID_RESOLUTION_TIME,
+    retryable: false,
+    remedy: 'Set resolutionTime after bettingEnds.',
+  },
+  BettingEnded: {
+    code: BettingErrorCode.BETTING_ENDED,
+    retryable: false,
+    remedy: 'Betting is closed for this market. Choose a market whose betting period is still open.',
+  },
+  MarketAlreadyResolved: {
+    code: BettingErrorCode.MARKET_ALREADY_RESOLVED,
+    retryable: false,
+    remedy: 'The market is already resolved. Use claim_winnings if the position won.',
+  },
+  MarketNotResolved: {
+    code: BettingErrorCode.MARKET_NOT_RESOLVED,
+    retryable: true,
+    remedy: 'Wait until the oracle resolves the market, then retry.',
+  },
+  TooEarlyToResolve: {
+    code: BettingErrorCode.TOO_EARLY_TO_RESOLVE,
+    retryable: true,
+    remedy: 'Retry after the market resolution_time has passed.',
+  },
+  ResolutionExpired: {
+    code: BettingErrorCode.RESOLUTION_EXPIRED,
+    retryable: false,
+    remedy: 'The oracle grace period has expired. The protocol authority must resolve the market.',
+  },
+  OracleTimeoutNotReached: {
+    code: BettingErrorCode.ORACLE_TIMEOUT_NOT_REACHED,
+    retryable: true,
+    remedy: 'The protocol authority must wait 24 hours after resolution_time before overriding the oracle.',
+  },
+  BetTooSmall: {
+    code: BettingErrorCode.BET_TOO_SMALL,
+    retryable: false,
+    remedy: 'Increase the bet to at least 0.005 SOL or 1 USDC.',
+  },
+  BetTooLarge: {
+    code: BettingErrorCode.BET_TOO_LARGE,
+    retryable: false,
+    remedy: 'Reduce the bet amount below the maximum.',
+  },
+  AlreadyClaimed: {
+    code: BettingErrorCode.ALREADY_CLAIMED,
+    retryable: false,
+    remedy: 'Winnings for this position were already claimed. Nothing to do.',
+  },
+  NotAWinner: {
+    code: BettingErrorCode.NOT_A_WINNER,
+    retryable: false,
+    remedy: 'This position did not win. There is nothing to claim.',
+  },
+  NoWinningBets: {
+    code: BettingErrorCode.NO_WINNING_BETS,
+    retryable: false,
+    remedy: 'Nobody bet on the winning side. The market must be refunded instead of claimed.',
+  },
+  UnauthorizedOracle: {
+    code: BettingErrorCode.UNAUTHORIZED_ORACLE,
+    retryable: false,
+    remedy: 'Only the oracle assigned to this market can resolve it.',
+  },
+  UnauthorizedAuthority: {
+    code: BettingErrorCode.UNAUTHORIZED_AUTHORITY,
+    retryable: false,
+    remedy: 'Only the protocol authority can perform this action.',
+  },
+  InsufficientFunds: {
+    code: BettingErrorCode.INSUFFICIENT_FUNDS,
+    retryable: false,
+    remedy: 'Fund the wallet (SOL for fees, plus the bet currency) and retry.',
+  },
+  IntegerOverflow: {
+    code: BettingErrorCode.INTEGER_OVERFLOW,
+    retryable: false,
+    remedy: 'Use a smaller amount.',
+  },
+  NeedsRefund: {
+    code: BettingErrorCode.NEEDS_REFUND,
+    retryable: false,
+    remedy: 'Only one side of this market has bets. Wait for the refund instead of claiming.',
+  },
+  InvalidFees: {
+    code: BettingErrorCode.INVALID_FEES,
+    retryable: false,
+    remedy: 'The protocol fee configuration is invalid. Contact the protocol authority.',
+  },
+  WrongCurrencyType: {
+    code: BettingErrorCode.WRONG_CURRENCY_TYPE,
+    retryable: false,
+    remedy: 'Use the currencyType of the market (check currency_type in market details).',
+  },
+  InvalidUsdcMint: {
+    code: BettingErrorCode.INVALID_USDC_MINT,
+    retryable: false,
+    remedy: 'Use the official USDC mint for this network.',
+  },
+  NoPendingAuthority: {
+    code: BettingErrorCode.NO_PENDING_AUTHORITY,
+    retryable: false,
+    remedy: 'Start an authority transfer with transfer_authority before accepting it.',
+  },
+};
+
+/**
+ * Program errors from the IDL, keyed by custom error number (6000-6024)
+ */
+const PROGRAM_ERRORS = new Map<number, { name: string; msg: string }>(
+  (IDL as any).errors.map((e: { code: number; name: string; msg: string }) => [e.code, e])
+);
+
+export class BettingError extends Error {
+  constructor(
+    public code: BettingErrorCode,
+    public message: string,
+    public remedy: string,
+    public retryable: boolean = false,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'BettingError';
+  }
+
+  /**
+   * Convert to a JSON-friendly object for tool responses
+   */
+  toJSON() {
+    return {
+      code: this.code,
+      message: this.message,
+      remedy: this.remedy,
+      retryable: this.retryable,
+      details: this.details,
+    };
+  }
+
+  /**
+   * Convert to MCP error format
+   * @param context - Short description of what failed (e.g. "Failed to place bet on Solana")
+   */
+  toMCPError(context?: string) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: this.code,
+            message: this.message,
+            remedy: this.remedy,
+            retryable: this.retryable,
+            context,
+            details: this.details,
+          }, null, 2),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a BettingError for a program error by IDL name (e.g. "BetTooSmall")
+ * @param name - IDL error name
+ * @param message - Optional message overriding the IDL message
+ * @param details - Optional structured details
+ */
+export function createProgramError(name: string, message?: string, details?: any): BettingError {
+  const info = PROGRAM_ERROR_INFO[name];
+  const idlError = Array.from(PROGRAM_ERRORS.entries()).find(([, e]) => e.name === name);
+
+  if (!info || !idlError) {
+    return new BettingError(BettingErrorCode.UNKNOWN, message ?? name, 'Check the error details.', false, details);
+  }
+
+  const [number, { msg }] = idlError;
+  return new BettingError(info.code, message ?? msg, info.remedy, info.retryable, {
+    programErrorCode: number,
+    programErrorName: name,
+    ...details,
+  });
+}
+
+/**
+ * Create a BettingError from a custom program error number (6000-6024)
+ * @returns The matching error, or null if the number is not in the IDL
+ */
+export function createProgramErrorFromCode(code: number, details?: any): BettingError | null {
+  const idlError = PROGRAM_ERRORS.get(code);
+  return idlError ? createProgramError(idlError.name, idlError.msg, details) : null;
+}
+
+export function createInvalidInputError(message: string, details?: any): BettingError {
+  return new BettingError(
+    BettingErrorCode.INVALID_INPUT,
+    message,
+    'Fix the tool arguments and call the tool again.',
+    false,
+    details
+  );
+}
+
+/**
+ * Create a BettingError for a bet or market creation denied by the spending policy
+ * @param rule - Name of the policy rule that denied the action (e.g. "dailyLimit")
+ * @param message - What was denied and why
+ * @param details - Optional structured details (limit, current usage, requested amount)
+ */
+export function createPolicyError(rule: string, message: string, details?: any): BettingError {
+  return new BettingError(
+    BettingErrorCode.POLICY_VIOLATION,
+    `Denied by spending policy rule "${rule}": ${message}`,
+    'Reduce the amount or choose another market, or ask the operator to change the policy file.',
+    false,
+    { rule, ...details }
+  );
+}
+
+export function createApiError(status: number, body: any): BettingError {
+  return new BettingError(
+    BettingErrorCode.API_ERROR,
+    `API Error (${status})`,
+    status >= 500 || status === 429
+      ? 'The backend API is unavailable. Retry shortly.'
+      : 'Check the request parameters.',
+    status >= 500 || status === 429,
+    body
+  );
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+/**
+ * Extract the custom program error number from an Anchor or web3.js error
+ */
+function extractProgramErrorNumber(error: any): number | null {
+  // AnchorError
+  const anchorNumber = error?.error?.errorCode?.number;
+  if (typeof anchorNumber === 'number') return anchorNumber;
+
+  // ProgramError
+  if (typeof error?.code === 'number' && PROGRAM_ERRORS.has(error.code)) return error.code;
+
+  // SendTransactionError / simulation logs: "custom program error: 0x1775"
+  const text = [String(error?.message ?? error), ...(error?.logs ?? [])].join('\n');
+  const hexMatch = text.match(/custom program error: (0x[0-9a-f]+)/i);
+  if (hexMatch) return parseInt(hexMatch[1], 16);
+
+  const numberMatch = text.match(/Error Number: (\d+)/);
+  if (numberMatch) return parseInt(numberMatch[1], 10);
+
+  return null;
+}
+
+/**
+ * Decode a transaction error from RPC metadata or a simulation result,
+ * e.g. { InstructionError: [0, { Custom: 6005 }] }
+ */
+export function decodeTransactionError(err: unknown): BettingError {
+  const instructionError = (err as any)?.InstructionError;
+  const custom = instructionError?.[1]?.Custom;
+
+  if (typeof custom === 'number') {
+    const programError = createProgramErrorFromCode(custom, { instructionIndex: instructionError[0] });
+    if (programError) return programError;
+  }
+
+  return new BettingError(
+    BettingErrorCode.UNKNOWN,
+    `Transaction failed: ${JSON.stringify(err)}`,
+    'Inspect the transaction logs for details.',
+    false,
+    { raw: err }
+  );
+}
+
+/**
+ * Decode any error thrown by betting.ts, Anchor or web3.js into a BettingError
+ *
+ * @param error - The caught error
+ * @returns Structured error with code, message, remedy and retryability
+ */
+export function decodeError(error: unknown): BettingError {
+  if (error instanceof BettingError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  const programErrorNumber = extractProgramErrorNumber(error);
+  if (programErrorNumber !== null) {
+    const programError = createProgramErrorFromCode(programErrorNumber, { raw: message });
+    if (programError) return programError;
+  }
+
+  if (/insufficient lamports|insufficient funds|no record of a prior credit/i.test(message)) {
+    return new BettingError(
+      BettingErrorCode.INSUFFICIENT_BALANCE,
+      'Wallet balance is too low for this transaction',
+      'Fund the agent wallet with SOL (for fees) and the bet currency, then retry.',
+      false,
+      { raw: message }
+    );
+  }
+
+  if (/Account does not exist|could not find account/i.test(message)) {
+    return new BettingError(
+      BettingErrorCode.ACCOUNT_NOT_FOUND,
+      'On-chain account not found',
+      'Check that the market address and network are correct.',
+      false,
+      { raw: message }
+    );
+  }
+
+  if (/block height exceeded|blockhash not found|TransactionExpired/i.test(message)) {
+    return new BettingError(
+      BettingErrorCode.TRANSACTION_EXPIRED,
+      'Transaction expired before it was confirmed',
+      'Check the wallet history for the transaction, then retry if it did not land.',
+      true,
+      { raw: message }
+    );
+  }
+
+  // HTTP statuses only where they read as one, not digits inside addresses or amounts
+  if (
+    /fetch failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT|timed out/i.test(message) ||
+    /\b(status|code)[: ]+(429|50[23])\b|Too Many Requests|Service Unavailable|Bad Gateway/i.test(message)
+  ) {
+    return new BettingError(
+      BettingErrorCode.RPC_ERROR,
+      'Failed to communicate with Solana RPC',
+      'Retry shortly, or check the SOLANA_RPC_URL configuration.',
+      true,
+      { raw: message }
+    );
+  }
+
+  return new BettingError(
+    BettingErrorCode.UNKNOWN,
+    message,
+    'Check the error details.',
+    false
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * Transaction Explainer
+ *
+ * Decodes any Sol Bets V3 transaction against the IDL: instruction names,
+ * arguments and named accounts, emitted events, program errors, fees and
+ * compute units, plus a readable summary.
+ */
+
+import { BorshInstructionCoder, EventParser } from '@coral-xyz/anchor';
+import { Connection } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { formatAmount } from './amounts.js';
+import { BETTING_PROGRAM_ID, toPlainObject } from './betting.js';
+import { getReadOnlyProgram } from './chain.js';
+import { BettingError, createInvalidInputError, decodeTransactionError } from './errors.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DecodedInstruction {
+  index: number;
+  /** Index of the parent instruction for CPI (inner) instructions */
+  innerOf: number | null;
+  name: string | null;
+  args: Record<string, any> | null;
+  accounts: Array<{ name: string | null; address: string }>;
+}
+
+export interface TransactionExplanation {
+  signature: string;
+  slot: number;
+  blockTime: string | null;
+  success: boolean;
+  feeLamports: number;
+  computeUnitsConsumed: number | null;
+  signer: string;
+  instructions: DecodedInstruction[];
+  events: Array<{ name: string; data: Record<string, any> }>;
+  error: ReturnType<BettingError['toJSON']> | null;
+  summary: string[];
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Describe a decoded instruction in one line
+ */
+function describeInstruction(ix: DecodedInstruction): string {
+  const account = (name: string) => ix.accounts.find((a) => a.name === name)?.address ?? 'unknown';
+  const args = ix.args ?? {};
+
+  switch (ix.name) {
+    case 'placeBetSol':
+      return `Bet ${formatAmount(args.amount, 'SOL')} SOL on ${args.betYes ? 'YES' : 'NO'} in market ${account('market')}`;
+    case 'placeBetUsdc':
+      return `Bet ${formatAmount(args.amount, 'USDC')} USDC on ${args.betYes ? 'YES' : 'NO'} in market ${account('market')}`;
+    case 'createMarket':
+      return `Created ${'usdc' in (args.currencyType ?? {}) ? 'USDC' : 'SOL'} market "${args.title}" ` +
+        `(betting ends ${new Date(Number(args.bettingEnds) * 1000).toISOString()}, ` +
+        `oracle ${account('oracle')})`;
+    case 'claimWinningsSol':
+    case 'claimWinningsUsdc':
+      return `Claimed winnings from market ${account('market')}`;
+    case 'resolveMarket':
+      return `Oracle resolved market ${account('market')} to ${args.outcome ? 'YES' : 'NO'}`;
+    case 'resolveMarketByAuthority':
+      return `Authority resolved market ${account('market')} to ${args.outcome ? 'YES' : 'NO'}`;
+    case 'initializeProtocol':
+      return `Initialized protocol with treasury ${account('treasury')}`;
+    case 'pauseProtocol':
+      return 'Paused the protocol';
+    case 'unpauseProtocol':
+      return 'Unpaused the protocol';
+    case 'addWhitelistedOracle':
+      return `Whitelisted oracle ${account('oracle')}`;
+    case 'removeWhitelistedOracle':
+      return `Removed oracle ${account('oracle')} from whitelist`;
+    case 'updateOracleFee':
+      return `Updated oracle fee to ${args.newFee} lamports`;
+    case 'transferAuthority':
+      return `Started authority transfer to ${args.newAuthority}`;
+    case 'acceptAuthority':
+      return `Accepted protocol authority as ${account('newAuthority')}`;
+    case null:
+      return 'Unrecognized Sol Bets instruction';
+    default:
+      return `Called ${ix.name}`;
+  }
+}
+
+/**
+ * Describe a decoded event in one line
+ */
+function describeEvent(event: { name: string; data: Record<string, any> }): string {
+  const d = event.data;
+
+  switch (event.name) {
+    case 'betPlaced':
+      return `BetPlaced: net ${d.netAmount} of ${d.amount} on ${d.betYes ? 'YES' : 'NO'}, ` +
+        `pools now YES ${d.newYesPool} / NO ${d.newNoPool}`;
+    case 'marketCreated':
+      return `MarketCreated: market #${d.marketId}, creation fee ${d.marketCreationFeePaid}, oracle fee ${d.oracleFeePaid}`;
+    case 'marketResolved':
+      return `MarketResolved: ${d.outcome ? 'YES' : 'NO'} won, winning pool ${d.winningPool} of ${d.totalPool}`;
+    case 'winningsClaimed':
+      return `WinningsClaimed: payout ${d.payoutAmount}`;
+    case 'feesDistributed':
+      return `FeesDistributed: creator ${d.creatorFee}, protocol ${d.protocolFee}`;
+    case 'marketNeedsRefund':
+      return `MarketNeedsRefund: refund pool ${d.refundPool}`;
+    default:
+      return `${event.name}: ${JSON.stringify(d)}`;
+  }
+}
+
+// ============================================================================
+// Explain
+// ============================================================================
+
+/**
+ * Fetch and decode a transaction
+ *
+ * @param connection - Solana connection
+ * @param signature - Transaction signature
+ * @returns Decoded instructions, events, error and a readable summary
+ */
+export async function explainTransaction(
+  connection: Connection,
+  signature: string
+): Promise<TransactionExplanation> {
+  const tx = await connection.getTransaction(signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0,
+  });
+
+  if (!tx) {
+    throw createInvalidInputError(`Transaction ${signature} not found`, {
+      possibleReasons: [
+        'Transaction not yet confirmed (wait a few seconds)',
+        'Invalid signature',
+        'Transaction on different network (check devnet vs mainnet)',
+      ],
+    });
+  }
+
+  const program = getReadOnlyProgram(connection);
+  const message = tx.transaction.message;
+  const accountKeys = message.getAccountKeys({
+    accountKeysFromLookups: tx.meta?.loadedAddresses,
+  });
+
+  const decode = (
+    programIdIndex: number,
+    accountIndexes: number[],
+    data: Buffer,
+    index: number,
+    innerOf: number | null
+  ): DecodedInstruction | null => {
+    if (!accountKeys.get(programIdIndex)?.equals(BETTING_PROGRAM_ID)) return null;
+
+    const decoded = (program.coder.instruction as BorshInstructionCoder).decode(data);
+    const idlIx = decoded ? program.idl.instructions.find((i) => i.name === decoded.name) : undefined;
+    const accountNames = (idlIx?.accounts ?? []).map((a: any) => a.name as string);
+
+    return {
+      index,
+      innerOf,
+      name: decoded?.name ?? null,
+      args: decoded ? toPlainObject(decoded.data) : null,
+      accounts: accountIndexes.map((keyIndex, i) => ({
+        name: accountNames[i] ?? null,
+        address: accountKeys.get(keyIndex)?.toString() ?? 'unknown',
+      })),
+    };
+  };
+
+  const instructions: DecodedInstruction[] = [];
+  message.compiledInstructions.forEach((ix, index) => {
+    const decoded = decode(ix.programIdIndex, ix.accountKeyIndexes, Buffer.from(ix.data), index, null);
+    if (decoded) instructions.push(decoded);
+  });
+
+  for (const inner of tx.meta?.innerInstructions ?? []) {
+    inner.instructions.forEach((ix, index) => {
+      const decoded = decode(
+        ix.programIdIndex,
+        ix.accounts,
+        Buffer.from(bs58.decode(ix.data)),
+        index,
+        inner.index
+      );
+      if (decoded) instructions.push(decoded);
+    });
+  }
+
+  const parser = new EventParser(program.programId, program.coder);
+  const events = Array.from(parser.parseLogs(tx.meta?.logMessages ?? [])).map((e) => ({
+    name: e.name,
+    data: toPlainObject(e.data),
+  }));
+
+  const error = tx.meta?.err ? decodeTransactionError(tx.meta.err).toJSON() : null;
+
+  const summary = [
+    ...instructions.map((ix) => `${ix.innerOf !== null ? '(CPI) ' : ''}${describeInstruction(ix)}`),
+    ...events.map(describeEvent),
+    error ? `Failed: ${error.message}` : 'Succeeded',
+    `Fee: ${formatAmount(tx.meta?.fee ?? 0, 'SOL')} SOL, compute units: ${tx.meta?.computeUnitsConsumed ?? 'unknown'}`,
+  ];
+
+  return {
+    signature,
+    slot: tx.slot,
+    blockTime: tx.blockTime ? new Date(tx.blockTime * 1000).toISOString() : null,
+    success: !tx.meta?.err,
+    feeLamports: tx.meta?.fee ?? 0,
+    computeUnitsConsumed: tx.meta?.computeUnitsConsumed ?? null,
+    signer: accountKeys.get(0)?.toString() ?? 'unknown',
+    instructions,
+    events,
+    error,
+    summary,
+  };
+}
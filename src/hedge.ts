@@ -0,0 +1,254 @@
+/**
+ * Hedge Calculator
+ *
+ * Positions cannot be sold, so risk is reduced by betting the other side.
+ * Finds the opposite-side stake that equalizes the payout across outcomes,
+ * or the smallest stake that caps the worst-case loss, using the exact
+ * parimutuel math (fees and the hedge's own pool impact included).
+ * calculateHedgeFromChain feeds it a wallet's UserPosition account, the
+ * market's pools and the protocol fees read from chain.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { MIN_BET_SOL, MIN_BET_USDC, toCurrencyType, toPlainObject } from './betting.js';
+import { fetchMarketAccount, fetchProtocolAccount, fetchUserPositionAccount } from './chain.js';
+import { formatAmount, parseAmount } from './amounts.js';
+import { createInvalidInputError } from './errors.js';
+import {
+  FeeBreakdown,
+  FeeRates,
+  ImpliedOdds,
+  Pools,
+  Position,
+  calculateBetOutcome,
+  calculateFees,
+  impliedOdds,
+} from './parimutuel.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HedgeMode = 'equalize' | 'max_loss';
+
+export interface HedgeInput {
+  /** Current pools (already including the position) */
+  pools: Pools;
+  rates: FeeRates;
+  /** Net stakes of the position */
+  position: Position;
+  /** Gross amount deposited into the position so far */
+  totalDeposited: bigint;
+  mode: HedgeMode;
+  /** Largest acceptable loss in either outcome, for mode "max_loss" */
+  maxLoss?: bigint;
+}
+
+export interface OutcomeProfile {
+  payoutIfYes: bigint;
+  payoutIfNo: bigint;
+  /** Payout minus everything deposited, including the hedge */
+  profitIfYes: bigint;
+  profitIfNo: bigint;
+  worstCase: bigint;
+}
+
+export interface HedgeResult {
+  /** Side of the hedge bet, null if no hedge is needed or possible */
+  betYes: boolean | null;
+  /** Gross hedge stake in smallest units */
+  amount: bigint;
+  fees: FeeBreakdown;
+  before: OutcomeProfile;
+  after: OutcomeProfile;
+  oddsBefore: ImpliedOdds;
+  oddsAfter: ImpliedOdds;
+  achievable: boolean;
+  reason: string;
+}
+
+/** Upper bound of the stake search, far above any real pool */
+const MAX_HEDGE = 10n ** 19n;
+
+// ============================================================================
+// Calculations
+// ============================================================================
+
+function profile(input: HedgeInput, amount: bigint, betYes: boolean): OutcomeProfile {
+  const outcome = calculateBetOutcome(input.pools, input.rates, amount, betYes, input.position);
+  const cost = input.totalDeposited + amount;
+  const profitIfYes = outcome.payoutIfYes - cost;
+  const profitIfNo = outcome.payoutIfNo - cost;
+
+  return {
+    payoutIfYes: outcome.payoutIfYes,
+    payoutIfNo: outcome.payoutIfNo,
+    profitIfYes,
+    profitIfNo,
+    worstCase: profitIfYes < profitIfNo ? profitIfYes : profitIfNo,
+  };
+}
+
+/**
+ * Smallest stake for which `done` holds, assuming `done` is monotonic in the
+ * stake; null if it never holds
+ *
+ * @param done - Predicate on the stake
+ * @param upper - Known stake for which `done` holds; searched by doubling if omitted
+ */
+function bisect(done: (amount: bigint) => boolean, upper?: bigint): bigint | null {
+  let high = upper ?? 1n;
+  while (!done(high)) {
+    if (upper !== undefined || high >= MAX_HEDGE) return null;
+    high *= 2n;
+  }
+
+  let low = 0n;
+  while (high - low > 1n) {
+    const mid = (low + high) / 2n;
+    if (done(mid)) high = mid;
+    else low = mid;
+  }
+  return done(low) ? low : high;
+}
+
+/**
+ * Compute a hedge for an existing position
+ *
+ * The hedge goes on the outcome with the lower payout. In "equalize" mode it
+ * is the stake at which the hedged outcome pays at least as much as the other;
+ * in "max_loss" mode the smallest stake that keeps both outcomes' loss within
+ * maxLoss, which can only be reached up to the equalizing stake.
+ *
+ * @param input - Pools, fees, position, deposits and mode
+ * @returns Hedge side and stake with the outcome profile before and after
+ */
+export function calculateHedge(input: HedgeInput): HedgeResult {
+  const oddsBefore = impliedOdds(input.pools);
+  const before = profile(input, 0n, true);
+  const betYes = before.payoutIfYes < before.payoutIfNo;
+
+  const result = (amount: bigint, achievable: boolean, reason: string): HedgeResult => {
+    const outcome = calculateBetOutcome(input.pools, input.rates, amount, betYes, input.position);
+    return {
+      betYes: amount > 0n ? betYes : null,
+      amount,
+      fees: calculateFees(amount, input.rates),
+      before,
+      after: profile(input, amount, betYes),
+      oddsBefore,
+      oddsAfter: outcome.oddsAfter,
+      achievable,
+      reason,
+    };
+  };
+
+  if (input.position.yesAmount === 0n && input.position.noAmount === 0n) {
+    return result(0n, false, 'No position to hedge');
+  }
+  if (before.payoutIfYes === before.payoutIfNo) {
+    return result(0n, true, 'Position already pays the same in both outcomes');
+  }
+
+  const equalizing = bisect((amount) => {
+    const p = profile(input, amount, betYes);
+    return betYes ? p.payoutIfYes >= p.payoutIfNo : p.payoutIfNo >= p.payoutIfYes;
+  });
+  if (equalizing === null) {
+    return result(0n, false, 'No stake equalizes the payouts');
+  }
+
+  const side = betYes ? 'YES' : 'NO';
+  if (input.mode === 'equalize') {
+    return result(equalizing, true, `Bet on ${side} to equalize payouts across outcomes`);
+  }
+
+  const maxLoss = input.maxLoss ?? 0n;
+  if (before.worstCase >= -maxLoss) {
+    return result(0n, true, 'Worst-case loss is already within the target');
+  }
+  if (profile(input, equalizing, betYes).worstCase < -maxLoss) {
+    return result(
+      equalizing,
+      false,
+      `Target loss cannot be reached by hedging; the equalizing bet on ${side} gives the smallest worst-case loss`
+    );
+  }
+
+  const capping = bisect((amount) => profile(input, amount, betYes).worstCase >= -maxLoss, equalizing)!;
+  return result(capping, true, `Smallest bet on ${side} that caps the loss in either outcome`);
+}
+
+// ============================================================================
+// Chain
+// ============================================================================
+
+/**
+ * Compute a hedge for a wallet's position from its UserPosition account,
+ * the market pools and the protocol fees
+ *
+ * @param connection - Solana connection
+ * @param marketId - Numeric market ID or market address
+ * @param walletAddress - Owner of the position
+ * @param mode - "equalize" payouts or cap the loss at "max_loss"
+ * @param maxLoss - Decimal loss target for mode "max_loss"
+ */
+export async function calculateHedgeFromChain(
+  connection: Connection,
+  marketId: string | number,
+  walletAddress: string,
+  mode: HedgeMode,
+  maxLoss?: string
+) {
+  const { address, account: market } = await fetchMarketAccount(connection, marketId);
+  const protocol = await fetchProtocolAccount(connection);
+  const currency = toCurrencyType(market.currencyType);
+
+  let user: PublicKey;
+  try {
+    user = new PublicKey(walletAddress);
+  } catch {
+    throw createInvalidInputError(`Invalid wallet address: ${walletAddress}`);
+  }
+  if (mode === 'max_loss' && maxLoss === undefined) {
+    throw createInvalidInputError('maxLoss is required for mode "max_loss"');
+  }
+
+  const { account: position } = await fetchUserPositionAccount(connection, address, user);
+
+  const hedge = calculateHedge({
+    pools: { yesPool: BigInt(market.yesPool.toString()), noPool: BigInt(market.noPool.toString()) },
+    rates: { creatorFeeBps: protocol.creatorFeeBps, protocolFeeBps: protocol.protocolFeeBps },
+    position: {
+      yesAmount: BigInt(position.yesAmount.toString()),
+      noAmount: BigInt(position.noAmount.toString()),
+    },
+    totalDeposited: BigInt(position.totalDeposited.toString()),
+    mode,
+    maxLoss: maxLoss !== undefined ? parseAmount(maxLoss, currency) : undefined,
+  });
+  const minBet = BigInt((currency === 'SOL' ? MIN_BET_SOL : MIN_BET_USDC).toString());
+  const now = Math.floor(Date.now() / 1000);
+
+  return {
+    marketId: market.id.toString(),
+    address: address.toString(),
+    title: market.title,
+    currencyType: currency,
+    walletAddress,
+    mode,
+    isBettingOpen: !market.isResolved && now < market.bettingEnds.toNumber(),
+    side: hedge.betYes === null ? null : hedge.betYes ? 'YES' : 'NO',
+    belowMinimumBet: hedge.amount > 0n && hedge.amount < minBet,
+    ...toPlainObject(hedge),
+    formatted: {
+      amount: formatAmount(hedge.amount, currency),
+      fees: formatAmount(hedge.fees.totalFee, currency),
+      worstCaseBefore: formatAmount(hedge.before.worstCase, currency),
+      worstCaseAfter: formatAmount(hedge.after.worstCase, currency),
+      profitIfYes: formatAmount(hedge.after.profitIfYes, currency),
+      profitIfNo: formatAmount(hedge.after.profitIfNo, currency),
+    },
+    source: 'chain',
+  };
+}
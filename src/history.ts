@@ -0,0 +1,230 @@
+/**
+ * Wallet History
+ *
+ * Line-item history of a wallet (bets, claims and market creations) from the
+ * local event index, newest first, with filters and cursor pagination.
+ * Market titles and currencies missing from the index are read from the
+ * Market accounts.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Currency, formatAmount } from './amounts.js';
+import { toCurrencyType } from './betting.js';
+import { getReadOnlyProgram, resolveMarketAddress } from './chain.js';
+import { createInvalidInputError } from './errors.js';
+import { IndexedEvent, IndexedEventName, getIndexedMarket, readIndexedEvents, syncEventIndex } from './indexer.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HistoryItemType = 'bet' | 'claim' | 'market_created';
+
+export interface HistoryItem {
+  type: HistoryItemType;
+  signature: string;
+  slot: number;
+  timestamp: string | null;
+  marketAddress: string;
+  marketId: string;
+  title: string | null;
+  currencyType: Currency | null;
+  /** Side of a bet */
+  side: 'YES' | 'NO' | null;
+  /** Gross bet amount */
+  amount: string | null;
+  /** Fees paid: bet fees, or market creation and oracle fees (SOL) */
+  fees: string | null;
+  /** Payout received by a claim */
+  payout: string | null;
+}
+
+export interface HistoryFilter {
+  types?: HistoryItemType[];
+  marketId?: string;
+  currencyType?: Currency;
+  /** Unix seconds, inclusive */
+  since?: number;
+  /** Unix seconds, exclusive */
+  until?: number;
+}
+
+const EVENT_TYPES: Record<string, HistoryItemType> = {
+  betPlaced: 'bet',
+  winningsClaimed: 'claim',
+  marketCreated: 'market_created',
+};
+
+/** Most items per page */
+const MAX_PAGE_SIZE = 200;
+
+/** Accounts per getMultipleAccounts call */
+const FETCH_BATCH_SIZE = 100;
+
+// ============================================================================
+// Cursors
+// ============================================================================
+
+function eventKey(event: IndexedEvent): string {
+  return `${event.signature}:${event.index}`;
+}
+
+function encodeCursor(event: IndexedEvent): string {
+  return Buffer.from(eventKey(event)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): string {
+  return Buffer.from(cursor, 'base64url').toString('utf8');
+}
+
+// ============================================================================
+// History
+// ============================================================================
+
+/**
+ * Title and currency of each market, from the index first and the Market
+ * accounts for the rest
+ */
+async function marketInfo(
+  connection: Connection,
+  indexDir: string,
+  addresses: string[]
+): Promise<Map<string, { marketId: string | null; title: string | null; currency: Currency | null }>> {
+  const info = new Map(addresses.map((address) => {
+    const indexed = getIndexedMarket(indexDir, address);
+    return [address, {
+      marketId: indexed?.marketId ?? null,
+      title: indexed?.title ?? null,
+      currency: indexed?.currencyType ?? null,
+    }];
+  }));
+
+  const missing = addresses.filter((address) => !info.get(address)!.title || !info.get(address)!.currency);
+  const program = getReadOnlyProgram(connection);
+  for (let i = 0; i < missing.length; i += FETCH_BATCH_SIZE) {
+    const batch = missing.slice(i, i + FETCH_BATCH_SIZE);
+    const accounts = await (program.account as any).market.fetchMultiple(batch.map((a) => new PublicKey(a)));
+
+    for (const [j, account] of accounts.entries()) {
+      if (!account) continue;
+      const entry = info.get(batch[j])!;
+      entry.title ??= account.title;
+      entry.currency ??= toCurrencyType(account.currencyType);
+    }
+  }
+
+  return info;
+}
+
+/**
+ * List a wallet's bets, claims and market creations, newest first
+ *
+ * @param connection - Solana connection
+ * @param indexDir - Directory holding the event index
+ * @param walletAddress - Wallet whose history is listed
+ * @param filter - Optional item types, market, currency and time range
+ * @param page - Cursor from a previous page, page size and whether to sync the index first
+ */
+export async function getWalletHistory(
+  connection: Connection,
+  indexDir: string,
+  walletAddress: string,
+  filter: HistoryFilter = {},
+  page: { cursor?: string; limit?: number; refresh?: boolean } = {}
+) {
+  try {
+    new PublicKey(walletAddress);
+  } catch {
+    throw createInvalidInputError(`Invalid wallet address: ${walletAddress}`);
+  }
+
+  const limit = page.limit ?? 50;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw createInvalidInputError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  if (page.refresh ?? true) {
+    await syncEventIndex(connection, indexDir);
+  }
+
+  const types = filter.types ?? Object.values(EVENT_TYPES);
+  const events = readIndexedEvents(indexDir, {
+    names: Object.keys(EVENT_TYPES).filter((name) => types.includes(EVENT_TYPES[name])) as IndexedEventName[],
+    wallet: walletAddress,
+    marketAddress: filter.marketId ? resolveMarketAddress(filter.marketId).toString() : undefined,
+    since: filter.since,
+    until: filter.until,
+  })
+    .filter((event) => (event.data.user ?? event.data.creator) === walletAddress)
+    .reverse();
+
+  // Market details are looked up for the returned page only, unless the
+  // currency filter needs them for every market
+  const marketsOf = (list: IndexedEvent[]) => [...new Set(list.map((e) => e.data.marketAddress as string))];
+  const allInfo = filter.currencyType ? await marketInfo(connection, indexDir, marketsOf(events)) : null;
+  const matching = allInfo
+    ? events.filter((event) => allInfo.get(event.data.marketAddress)?.currency === filter.currencyType)
+    : events;
+
+  let start = 0;
+  if (page.cursor) {
+    const key = decodeCursor(page.cursor);
+    const position = matching.findIndex((event) => eventKey(event) === key);
+    if (position === -1) {
+      throw createInvalidInputError('Invalid or stale cursor; request the first page again');
+    }
+    start = position + 1;
+  }
+  const slice = matching.slice(start, start + limit);
+  const info = allInfo ?? await marketInfo(connection, indexDir, marketsOf(slice));
+
+  const items: HistoryItem[] = slice.map((event) => {
+    const market = info.get(event.data.marketAddress)!;
+    const currency = market.currency;
+    const format = (units: bigint | string) => (currency ? formatAmount(units, currency) : String(units));
+    const base = {
+      type: EVENT_TYPES[event.name],
+      signature: event.signature,
+      slot: event.slot,
+      timestamp: event.blockTime !== null ? new Date(event.blockTime * 1000).toISOString() : null,
+      marketAddress: event.data.marketAddress,
+      marketId: event.data.marketId ?? market.marketId,
+      title: market.title,
+      currencyType: currency,
+      side: null,
+      amount: null,
+      fees: null,
+      payout: null,
+    };
+
+    switch (event.name) {
+      case 'betPlaced':
+        return {
+          ...base,
+          side: event.data.betYes ? 'YES' : 'NO',
+          amount: format(event.data.amount),
+          fees: format(BigInt(event.data.amount) - BigInt(event.data.netAmount)),
+        };
+      case 'winningsClaimed':
+        return { ...base, payout: format(event.data.payoutAmount) };
+      default:
+        // Creation and oracle fees are paid in SOL whatever the market currency
+        return {
+          ...base,
+          fees: formatAmount(BigInt(event.data.marketCreationFeePaid) + BigInt(event.data.oracleFeePaid), 'SOL'),
+        };
+    }
+  });
+
+  const last = slice[slice.length - 1];
+  const hasMore = start + limit < matching.length;
+
+  return {
+    walletAddress,
+    total: matching.length,
+    count: items.length,
+    items,
+    nextCursor: hasMore && last ? encodeCursor(last) : null,
+    source: 'index',
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Idempotency Keys
+ *
+ * Persists the outcome of write requests by a client-chosen key so that a
+ * retried request returns the original result instead of submitting a
+ * second transaction.
+ */
+
+import { Connection } from '@solana/web3.js';
+import {
+  SubmittedTransaction,
+  findTransactionEvent,
+  getSubmissionStatus,
+  getSubmittedTransaction,
+} from './betting.js';
+import { getReadOnlyProgram } from './chain.js';
+import { BettingError, BettingErrorCode, createInvalidInputError, decodeError } from './errors.js';
+import { readJsonFile, writeJsonFile } from './storage.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type IdempotencyStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface IdempotencyRecord {
+  key: string;
+  status: IdempotencyStatus;
+  /** Request parameters; a retry must send the same ones */
+  request: Record<string, unknown>;
+  signature: string | null;
+  event: Record<string, any> | null;
+  error: ReturnType<BettingError['toJSON']> | null;
+  /** Transaction a failed attempt sent without seeing it confirmed, which may still have landed */
+  submitted?: SubmittedTransaction | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type Store = Record<string, IdempotencyRecord>;
+
+// ============================================================================
+// State
+// ============================================================================
+
+/** Executions still running in this process, so concurrent retries can wait on them */
+const inFlight = new Map<string, Promise<{ record: IdempotencyRecord; replayed: boolean }>>();
+
+function saveRecord(storePath: string, record: IdempotencyRecord): void {
+  const store = readJsonFile<Store>(storePath, {});
+  store[record.key] = { ...record, updatedAt: new Date().toISOString() };
+  writeJsonFile(storePath, store);
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Settle a failed record whose attempt sent a transaction: confirmed if the
+ * transaction landed, an error while it may still land, and null once it
+ * failed on chain or can no longer land, so the request may run again
+ */
+async function settleSubmitted(
+  connection: Connection,
+  storePath: string,
+  record: IdempotencyRecord,
+  eventName: string
+): Promise<IdempotencyRecord | null> {
+  const submitted = record.submitted!;
+  const { status } = await getSubmissionStatus(connection, submitted);
+
+  switch (status) {
+    case 'landed': {
+      console.error(`✅ Idempotency key ${record.key}: earlier transaction ${submitted.signature} landed`);
+      const event = await findTransactionEvent(connection, getReadOnlyProgram(connection), submitted.signature, eventName);
+      const confirmed: IdempotencyRecord = {
+        ...record,
+        status: 'confirmed',
+        signature: submitted.signature,
+        event,
+        error: null,
+        submitted: null,
+      };
+      saveRecord(storePath, confirmed);
+      return confirmed;
+    }
+    case 'pending':
+      throw new BettingError(
+        BettingErrorCode.UNKNOWN,
+        `Transaction ${submitted.signature} from the earlier request with idempotency key "${record.key}" may still land`,
+        'Retry with the same key after its blockhash expires; it will return the result if the transaction landed.',
+        true,
+        { record }
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * Settle, replay or execute the request of one idempotency key; callers
+ * hold the key's inFlight slot
+ */
+async function runOnce(
+  connection: Connection,
+  storePath: string,
+  key: string,
+  request: Record<string, unknown>,
+  eventName: string,
+  execute: () => Promise<{ signature: string | null; event: Record<string, any> | null }>,
+  existing: IdempotencyRecord | undefined
+): Promise<{ record: IdempotencyRecord; replayed: boolean }> {
+  if (existing?.status === 'failed' && existing.submitted) {
+    existing = (await settleSubmitted(connection, storePath, existing, eventName)) ?? existing;
+  }
+
+  if (existing?.status === 'confirmed') {
+    console.error(`♻️  Returning stored result for idempotency key ${key}`);
+    return { record: existing, replayed: true };
+  }
+
+  if (existing?.status === 'pending') {
+    throw new BettingError(
+      BettingErrorCode.UNKNOWN,
+      `Request with idempotency key "${key}" was interrupted before its result was recorded`,
+      'Check the wallet position or recent transactions before retrying with a new key.',
+      false,
+      { record: existing }
+    );
+  }
+
+  const now = new Date().toISOString();
+  const record: IdempotencyRecord = {
+    key,
+    status: 'pending',
+    request,
+    signature: null,
+    event: null,
+    error: null,
+    submitted: null,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  saveRecord(storePath, record);
+
+  try {
+    const result = await execute();
+    const confirmed: IdempotencyRecord = { ...record, status: 'confirmed', ...result };
+    saveRecord(storePath, confirmed);
+    return { record: confirmed, replayed: false };
+  } catch (error) {
+    const bettingError = decodeError(error);
+    saveRecord(storePath, {
+      ...record,
+      status: 'failed',
+      error: bettingError.toJSON(),
+      submitted: getSubmittedTransaction(bettingError),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Run a write request at most once per idempotency key
+ *
+ * - No record, or a failed one that sent nothing: execute and persist
+ *   pending, then confirmed or failed
+ * - Failed after sending a transaction: confirmed if it landed, refused
+ *   while it may still land, executed again once it failed or was dropped
+ * - Confirmed: return the stored result without executing
+ * - Pending in this process: wait for the running execution
+ * - Pending from an earlier process (crash mid-submit): refuse, since the
+ *   transaction may or may not have landed
+ *
+ * @param connection - Solana connection, to check transactions of failed attempts
+ * @param storePath - JSON file holding the records
+ * @param key - Client-chosen idempotency key
+ * @param request - Request parameters, compared on retries
+ * @param eventName - Event decoded from a transaction that landed after its attempt failed (e.g. "betPlaced")
+ * @param execute - Submits the transaction and returns its signature and decoded event
+ * @returns The record and whether it was replayed from an earlier request
+ */
+export async function withIdempotency(
+  connection: Connection,
+  storePath: string,
+  key: string,
+  request: Record<string, unknown>,
+  eventName: string,
+  execute: () => Promise<{ signature: string | null; event: Record<string, any> | null }>
+): Promise<{ record: IdempotencyRecord; replayed: boolean }> {
+  const existing: IdempotencyRecord | undefined = readJsonFile<Store>(storePath, {})[key];
+
+  if (existing && JSON.stringify(existing.request) !== JSON.stringify(request)) {
+    throw createInvalidInputError(
+      `Idempotency key "${key}" was already used with different parameters`,
+      { original: existing.request, received: request }
+    );
+  }
+
+  const running = inFlight.get(key);
+  if (running) {
+    console.error(`⏳ Waiting for in-flight request with idempotency key ${key}`);
+    return { record: (await running).record, replayed: true };
+  }
+
+  // Registered before the first await, so a concurrent retry waits on this
+  // run instead of settling and executing the same record again
+  const run = runOnce(connection, storePath, key, request, eventName, execute, existing);
+  inFlight.set(key, run);
+  try {
+    return await run;
+  } finally {
+    inFlight.delete(key);
+  }
+}
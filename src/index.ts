@@ -6,7 +6,11 @@
  * Provides AI agents access to prediction markets with x402 micropayments on Solana.
  *
  * Features:
- * - 10 tools for market discovery, analysis, and betting
+ * - Market discovery and analysis: odds history, bet outcomes, Kelly sizing, hedges
+ * - Betting with dry runs, two-phase confirmation, conditional bets, DCA schedules
+ *   and paper trading, all checked against an optional spending policy
+ * - Claims, market resolution and admin tools (ADMIN_MODE)
+ * - Local event index for wallet history, P&L reports and strategy backtests
  * - Automatic USDC payments via x402 protocol
  * - Secure wallet management
  * - Error handling and logging
@@ -22,7 +26,73 @@ import { X402Client } from '@x402-solana/client';
 import { Connection, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import bs58 from 'bs58';
 import dotenv from 'dotenv';
-import { placeBetSol, placeBetUsdc, createMarket } from './betting.js';
+import { join } from 'path';
+import {
+  BetResult,
+  toCurrencyType,
+  toPlainObject,
+  createMarket,
+  claimWinnings,
+  resolveMarket,
+  resolveMarketByAuthority,
+} from './betting.js';
+import { claimAllWinnings, startAutoClaimSweeper } from './sweeper.js';
+import { AdminAction, getAdminAccess, isActionAllowed, runAdminAction } from './admin.js';
+import {
+  ReadSource,
+  calculateBetOutcomeFromChain,
+  getMarketFromChain,
+  getMarketOddsFromChain,
+  getProtocolStatsFromChain,
+  fetchMarketAccount,
+  fetchMarketCurrency,
+  getUserPositionFromChain,
+  readFromChain,
+} from './chain.js';
+import { explainTransaction } from './explain.js';
+import { HedgeMode, calculateHedgeFromChain } from './hedge.js';
+import { suggestBetSizeFromChain } from './sizing.js';
+import { Currency, formatAmount, parseAmount } from './amounts.js';
+import { backtestFromIndex } from './backtest.js';
+import { getOddsHistory } from './candles.js';
+import { confirmBet, prepareBet } from './confirmations.js';
+import {
+  ScheduleStatus,
+  cancelDcaSchedule,
+  createDcaSchedule,
+  getDcaProgress,
+  getDcaSchedule,
+  listDcaSchedules,
+  startDcaRunner,
+} from './dca.js';
+import { HistoryItemType, getWalletHistory } from './history.js';
+import { withIdempotency } from './idempotency.js';
+import { startEventIndexer, syncEventIndex } from './indexer.js';
+import { STRATEGIES, StrategyParams } from './strategies.js';
+import {
+  OrderStatus,
+  cancelConditionalOrder,
+  createConditionalOrder,
+  describeOrder,
+  listConditionalOrders,
+  startConditionalOrderWatcher,
+} from './orders.js';
+import { getPnlReport } from './pnl.js';
+import { getPaperPerformance, getPaperPortfolio, getPaperPosition, placePaperBet } from './paper.js';
+import {
+  PolicyConfig,
+  checkMarketCreation,
+  getPolicyStatus,
+  loadPolicy,
+  placeBetWithPolicy,
+  recordMarketCategory,
+} from './policy.js';
+import {
+  createApiError,
+  createInvalidInputError,
+  createProgramError,
+  decodeError,
+} from './errors.js';
 
 // Load environment variables
 dotenv.config();
@@ -35,6 +105,24 @@ const API_URL = process.env.API_URL || 'https://staging-api.solex.bet';
 const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.devnet.solana.com';
 const NETWORK = process.env.NETWORK || 'devnet';
 const WALLET_PRIVATE_KEY = process.env.WALLET_PRIVATE_KEY;
+const ADMIN_MODE = process.env.ADMIN_MODE === 'true';
+const READ_SOURCE = (process.env.READ_SOURCE || 'api') as ReadSource;
+const PAPER_TRADING = process.env.PAPER_TRADING === 'true';
+// Paper trading never submits transactions
+const DRY_RUN = process.env.DRY_RUN === 'true' || PAPER_TRADING;
+const AUTO_CLAIM_INTERVAL_MS = parseInt(process.env.AUTO_CLAIM_INTERVAL_MS || '0', 10);
+const BET_CONFIRMATION_TTL_MS = parseInt(process.env.BET_CONFIRMATION_TTL_MS || '300000', 10);
+const DATA_DIR = process.env.DATA_DIR || './data';
+const POLICY_FILE = process.env.POLICY_FILE;
+const IDEMPOTENCY_STORE = join(DATA_DIR, 'idempotency.json');
+const CONDITIONAL_ORDER_STORE = join(DATA_DIR, 'conditional-orders.json');
+const CONDITIONAL_ORDER_POLL_MS = parseInt(process.env.CONDITIONAL_ORDER_POLL_MS || '15000', 10);
+const DCA_STORE = join(DATA_DIR, 'dca-schedules.json');
+const DCA_POLL_MS = parseInt(process.env.DCA_POLL_MS || '30000', 10);
+const PAPER_LEDGER = join(DATA_DIR, 'paper-ledger.json');
+const PAPER_IDEMPOTENCY_STORE = join(DATA_DIR, 'paper', 'idempotency.json');
+const EVENT_INDEX_DIR = join(DATA_DIR, 'index');
+const INDEXER_POLL_MS = parseInt(process.env.INDEXER_POLL_MS || '0', 10);
 
 if (!WALLET_PRIVATE_KEY) {
   console.error('❌ ERROR: WALLET_PRIVATE_KEY environment variable not set');
@@ -43,6 +131,17 @@ if (!WALLET_PRIVATE_KEY) {
   process.exit(1);
 }
 
+let POLICY: PolicyConfig | null = null;
+if (POLICY_FILE) {
+  try {
+    // Paper bets are checked against the same rules but counted in their own spend ledger
+    POLICY = loadPolicy(POLICY_FILE, PAPER_TRADING ? join(DATA_DIR, 'paper') : DATA_DIR);
+  } catch (error) {
+    console.error(`❌ ERROR: Could not load spending policy: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
 // ============================================================================
 // Initialize x402 Client
 // ============================================================================
@@ -64,6 +163,17 @@ console.error(`🔗 RPC: ${SOLANA_RPC_URL}`);
 console.error(`🌐 API: ${API_URL}`);
 console.error(`💳 Agent Wallet: ${walletAddress}`);
 console.error(`🔍 View transactions: https://explorer.solana.com/address/${walletAddress}?cluster=${NETWORK}`);
+if (PAPER_TRADING) {
+  console.error(`📝 Paper trading: place_bet, confirm_bet, conditional bets and DCA slices are recorded as simulated bets in ${PAPER_LEDGER}`);
+} else if (DRY_RUN) {
+  console.error(`🧪 Dry-run mode: bets and market creation are simulated, never submitted`);
+}
+if (POLICY) {
+  console.error(`📜 Spending policy: ${POLICY.policyFile} (ledger: ${POLICY.ledgerPath})`);
+}
+if (ADMIN_MODE) {
+  console.error(`🛡️  Admin mode requested (tools register only if wallet is protocol authority)`);
+}
 
 // ============================================================================
 // Constants
@@ -91,15 +201,17 @@ type CategoryName = typeof ALL_CATEGORIES[number];
 // ============================================================================
 
 /**
- * Convert decimal amount to smallest unit
- * @param amount - Decimal amount (e.g., 1.5)
- * @param decimals - Number of decimals (9 for SOL, 6 for USDC)
- * @returns Integer in smallest unit as string
+ * Wrap data as a successful JSON tool result
  */
-function toSmallestUnit(amount: string | number, decimals: number = 6): string {
-  const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
-  const multiplier = Math.pow(10, decimals);
-  return Math.floor(numAmount * multiplier).toString();
+function toolResult(data: unknown) {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
 }
 
 /**
@@ -276,6 +388,39 @@ const server = new Server(
 // Tool Definitions
 // ============================================================================
 
+/**
+ * Data source selector shared by the read tools
+ */
+const SOURCE_PROPERTY = {
+  source: {
+    type: 'string',
+    enum: ['api', 'chain', 'auto'],
+    description: 'Where to read from: "api" (paid x402 backend), "chain" (free, decoded from on-chain accounts), "auto" (chain, falling back to the API). Defaults to the server READ_SOURCE setting.',
+  },
+};
+
+/**
+ * Dry-run flag shared by the write tools
+ */
+const DRY_RUN_PROPERTY = {
+  dryRun: {
+    type: 'boolean',
+    description: 'Simulate the transaction instead of submitting it. Returns the would-be logs, decoded events, compute units and any program error. Always on when the server runs with DRY_RUN=true.',
+    default: false,
+  },
+};
+
+/**
+ * Market category, needed by category rules of the spending policy
+ */
+const CATEGORY_PROPERTY = {
+  category: {
+    type: 'string',
+    enum: [...ALL_CATEGORIES],
+    description: 'Market category (from market data). Required when the spending policy restricts or caps categories.',
+  },
+};
+
 const TOOLS = [
   {
     name: 'search_markets',
@@ -341,15 +486,16 @@ const TOOLS = [
       properties: {
         marketId: {
           type: 'string',
-          description: 'The market ID to fetch details for',
+          description: 'The market ID to fetch details for (on-chain ID or market address when reading from chain)',
         },
+        ...SOURCE_PROPERTY,
       },
       required: ['marketId'],
     },
   },
   {
     name: 'get_market_odds',
-    description: 'Get current yes/no odds for a market. Essential for bet analysis and determining fair value.',
+    description: 'Get current yes/no odds for a market. Essential for bet analysis and determining fair value. Chain reads include the program\'s own get_market_stats computation (simulated, no fees).',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -357,13 +503,46 @@ const TOOLS = [
           type: 'string',
           description: 'The market ID',
         },
+        ...SOURCE_PROPERTY,
+      },
+      required: ['marketId'],
+    },
+  },
+  {
+    name: 'get_odds_history',
+    description: '🕯️ Get the implied YES probability of a market over time as OHLC candles with bet count and volume (total, YES, NO) per bucket, built from BetPlaced events in the local event index. Use it to reason about momentum. Free (RPC only), no API calls.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        marketId: {
+          type: 'string',
+          description: 'The market ID or on-chain market address',
+        },
+        bucket: {
+          type: 'string',
+          description: 'Candle width: a number followed by m, h or d (e.g. "5m", "1h", "1d")',
+          default: '1h',
+        },
+        since: {
+          type: 'number',
+          description: 'Optional Unix timestamp of the first bet to include',
+        },
+        until: {
+          type: 'number',
+          description: 'Optional Unix timestamp before which bets are included',
+        },
+        refresh: {
+          type: 'boolean',
+          description: 'Sync the event index before reading (default true). History older than the index backfill is missing until sync_event_index completes.',
+          default: true,
+        },
       },
       required: ['marketId'],
     },
   },
   {
     name: 'calculate_bet_outcome',
-    description: 'Simulate a bet to see expected shares, price impact, and fees before placing. Critical for bet optimization.',
+    description: 'Simulate a bet to see expected shares, price impact, and fees before placing. Critical for bet optimization. With source "chain" the parimutuel math (fees, net amount, new pools, odds before/after, payout per side) is computed locally for free.',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -379,13 +558,78 @@ const TOOLS = [
           type: 'boolean',
           description: 'true for YES bet, false for NO bet',
         },
+        currencyType: {
+          type: 'string',
+          enum: ['SOL', 'USDC'],
+          description: 'Market currency. Read from the on-chain market when omitted.',
+        },
+        walletAddress: {
+          type: 'string',
+          description: 'Optional bettor wallet; its existing position is included in the local payout per side (source "chain" only)',
+        },
+        ...SOURCE_PROPERTY,
       },
       required: ['marketId', 'amount', 'betYes'],
     },
   },
+  {
+    name: 'suggest_bet_size',
+    description: '📐 Kelly-criterion bet sizing. Given your own probability estimate for a market, finds the stake that maximizes expected log bankroll against the current pools, fees and the stake\'s own price impact, then scales it by the Kelly fraction. Returns the side, amount, expected value and odds shift. Free (reads on-chain accounts).',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        marketId: {
+          type: 'string',
+          description: 'Numeric on-chain market ID or market address',
+        },
+        probability: {
+          type: 'number',
+          description: 'Your estimated probability that the market resolves YES (0-1)',
+        },
+        bankroll: {
+          type: 'string',
+          description: 'Bankroll in the market currency (e.g. "5"). Defaults to the agent wallet\'s SOL or USDC balance.',
+        },
+        kellyFraction: {
+          type: 'number',
+          description: 'Fraction of full Kelly to stake, in (0, 1]. Defaults to 0.5 (half Kelly).',
+          default: 0.5,
+        },
+      },
+      required: ['marketId', 'probability'],
+    },
+  },
+  {
+    name: 'calculate_hedge',
+    description: '🛡️ Compute the opposite-side bet that hedges an existing position. Reads the wallet\'s position and the market pools, then finds the stake that equalizes payout across outcomes ("equalize") or the smallest stake that caps the loss in either outcome ("max_loss"), including fees and the hedge\'s own effect on the pools. Free (reads on-chain accounts).',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        marketId: {
+          type: 'string',
+          description: 'Numeric on-chain market ID or market address',
+        },
+        walletAddress: {
+          type: 'string',
+          description: 'Owner of the position. Defaults to the agent wallet.',
+        },
+        mode: {
+          type: 'string',
+          enum: ['equalize', 'max_loss'],
+          description: '"equalize" to lock in the same result in both outcomes, "max_loss" to cap the loss at maxLoss',
+          default: 'equalize',
+        },
+        maxLoss: {
+          type: 'string',
+          description: 'Largest acceptable loss in the market currency (e.g. "0.2"), required for mode "max_loss"',
+        },
+      },
+      required: ['marketId'],
+    },
+  },
   {
     name: 'get_user_position',
-    description: "Check user's position in a specific market including shares held, average price, current value, and P&L.",
+    description: "Check user's position in a specific market including shares held, average price, current value, and P&L. Chain reads include the program's own potential payouts from get_user_position_stats (simulated, no fees).",
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -397,6 +641,7 @@ const TOOLS = [
           type: 'string',
           description: 'User wallet address',
         },
+        ...SOURCE_PROPERTY,
       },
       required: ['marketId', 'walletAddress'],
     },
@@ -415,6 +660,82 @@ const TOOLS = [
       required: ['walletAddress'],
     },
   },
+  {
+    name: 'get_paper_performance',
+    description: '📝 Report the performance of paper-trading bets (PAPER_TRADING=true): per-currency stakes, fees, won/lost/refunded markets, hit rate, realized P&L and ROI, and unrealized P&L of open positions marked at current odds. Resolved markets are settled automatically.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+  {
+    name: 'get_wallet_history',
+    description: '🧾 List every bet, claim and market creation of a wallet, newest first, decoded from program transactions in the local event index: timestamp, market title, side, amount, fees paid and payout. Supports filters by type, market, currency and date range, and cursor pagination. Free (RPC only), no API calls.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        walletAddress: {
+          type: 'string',
+          description: 'User wallet address',
+        },
+        types: {
+          type: 'array',
+          items: { type: 'string', enum: ['bet', 'claim', 'market_created'] },
+          description: 'Only include these item types (default all)',
+        },
+        marketId: {
+          type: 'string',
+          description: 'Only include items of this market (ID or address)',
+        },
+        currencyType: {
+          type: 'string',
+          enum: ['SOL', 'USDC'],
+          description: 'Only include items in markets of this currency',
+        },
+        since: {
+          type: 'number',
+          description: 'Optional Unix timestamp of the oldest item to include',
+        },
+        until: {
+          type: 'number',
+          description: 'Optional Unix timestamp before which items are included',
+        },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from the previous page',
+        },
+        limit: {
+          type: 'number',
+          description: 'Items per page (1-200, default 50)',
+          default: 50,
+        },
+        refresh: {
+          type: 'boolean',
+          description: 'Sync the event index before reading (default true)',
+          default: true,
+        },
+      },
+      required: ['walletAddress'],
+    },
+  },
+  {
+    name: 'get_pnl_report',
+    description: '📊 Profit and loss of a wallet, separately for SOL and USDC, computed from its UserPosition and Market accounts: fees paid, realized P&L of resolved markets, unrealized P&L of open positions marked to current odds, claimed payouts, unclaimed winnings and pending refunds, with one line per position. Free (RPC only), no API calls.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        walletAddress: {
+          type: 'string',
+          description: 'Wallet to report on (defaults to the agent wallet)',
+        },
+        includePositions: {
+          type: 'boolean',
+          description: 'Include one line per position (default true)',
+          default: true,
+        },
+      },
+    },
+  },
   {
     name: 'place_bet',
     description: '🤖 AI AUTONOMOUS BETTING: Place a real bet on a market. The AI agent will create, sign, and submit the transaction to Solana. Use this when you have high confidence in a market opportunity.',
@@ -431,7 +752,44 @@ const TOOLS = [
         },
         amount: {
           type: 'string',
-          description: 'Bet amount in decimal units (e.g., "0.1" for 0.1 SOL or 0.1 USDC)',
+          description: 'Bet amount in decimal units (e.g., "0.1" for 0.1 SOL or 0.1 USDC). At most 9 decimal places for SOL and 6 for USDC.',
+        },
+        betYes: {
+          type: 'boolean',
+          description: 'true to bet YES (outcome will happen), false to bet NO (outcome will not happen)',
+        },
+        currencyType: {
+          type: 'string',
+          enum: ['SOL', 'USDC'],
+          description: 'Optional currency of the amount. The market\'s on-chain currency is always used; a different value is rejected.',
+        },
+        ...CATEGORY_PROPERTY,
+        idempotencyKey: {
+          type: 'string',
+          description: 'Optional unique key for this bet (e.g. a UUID). Retrying with the same key returns the original result instead of placing a second bet.',
+        },
+        ...DRY_RUN_PROPERTY,
+      },
+      required: ['marketAddress', 'marketId', 'amount', 'betYes'],
+    },
+  },
+  {
+    name: 'prepare_bet',
+    description: '📝 Prepare a bet for human approval without moving funds. Validates the market (open, unresolved, matching currency), simulates the bet and returns the fees, expected payout and a short-lived confirmationToken to pass to confirm_bet.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        marketAddress: {
+          type: 'string',
+          description: 'The on-chain market address (from market data)',
+        },
+        marketId: {
+          type: 'number',
+          description: 'The market ID number (from market data)',
+        },
+        amount: {
+          type: 'string',
+          description: 'Bet amount in decimal units (e.g., "0.1" for 0.1 SOL or 0.1 USDC). At most 9 decimal places for SOL and 6 for USDC.',
         },
         betYes: {
           type: 'boolean',
@@ -440,10 +798,26 @@ const TOOLS = [
         currencyType: {
           type: 'string',
           enum: ['SOL', 'USDC'],
-          description: 'Currency to bet with (must match market currency)',
+          description: 'Optional currency of the amount. The market\'s on-chain currency is always used; a different value is rejected.',
+        },
+        ...CATEGORY_PROPERTY,
+      },
+      required: ['marketAddress', 'marketId', 'amount', 'betYes'],
+    },
+  },
+  {
+    name: 'confirm_bet',
+    description: '✅ Execute a bet previously returned by prepare_bet. Only the exact prepared bet can be executed, and each token works once until it expires; dry runs do not use it up. Use this after a human has approved the prepared bet.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        confirmationToken: {
+          type: 'string',
+          description: 'The confirmationToken returned by prepare_bet',
         },
+        ...DRY_RUN_PROPERTY,
       },
-      required: ['marketAddress', 'marketId', 'amount', 'betYes', 'currencyType'],
+      required: ['confirmationToken'],
     },
   },
   {
@@ -493,61 +867,533 @@ const TOOLS = [
           enum: ['SOL', 'USDC'],
           description: 'Currency type for the market (SOL or USDC)',
         },
+        ...DRY_RUN_PROPERTY,
       },
       required: ['title', 'description', 'category', 'bettingEnds', 'resolutionTime', 'oracleAddress', 'currencyType'],
     },
   },
   {
-    name: 'get_protocol_stats',
-    description: 'Get platform-wide statistics including total volume, fees collected, number of markets, and TVL.',
+    name: 'create_conditional_bet',
+    description: '🎯 Create a conditional (limit) bet that the server places automatically once the implied probability of the chosen side crosses a threshold, e.g. bet 5 USDC on YES if YES drops below 30%. Orders are stored on disk and expire at expiresAt or when betting ends.',
     inputSchema: {
       type: 'object' as const,
-      properties: {},
+      properties: {
+        marketAddress: {
+          type: 'string',
+          description: 'The on-chain market address (or numeric market ID)',
+        },
+        amount: {
+          type: 'string',
+          description: 'Bet amount in the market currency (e.g. "5")',
+        },
+        betYes: {
+          type: 'boolean',
+          description: 'true to bet YES, false to bet NO',
+        },
+        condition: {
+          type: 'string',
+          enum: ['below', 'above'],
+          description: 'Fire when the implied probability of the bet side is below or above the threshold',
+        },
+        threshold: {
+          type: 'number',
+          description: 'Implied probability threshold between 0 and 1 (e.g. 0.3 for 30%)',
+        },
+        expiresAt: {
+          type: 'number',
+          description: 'Optional Unix timestamp after which the order expires (capped at the market betting end)',
+        },
+        ...CATEGORY_PROPERTY,
+      },
+      required: ['marketAddress', 'amount', 'betYes', 'condition', 'threshold'],
     },
   },
   {
-    name: 'get_leaderboard',
-    description: 'Get top performing wallets sorted by volume, P&L, win rate, or fees earned. Shows the best traders.',
+    name: 'list_conditional_bets',
+    description: '📋 List conditional bets with their status (open, filled, cancelled, expired, failed), trigger and resulting transaction.',
     inputSchema: {
       type: 'object' as const,
       properties: {
-        sortBy: {
+        status: {
           type: 'string',
-          enum: ['volume', 'pnl', 'winRate', 'fees'],
-          description: 'Metric to sort by',
+          enum: ['open', 'filled', 'cancelled', 'expired', 'failed'],
+          description: 'Only list orders with this status',
         },
-        limit: {
+      },
+    },
+  },
+  {
+    name: 'cancel_conditional_bet',
+    description: '🚫 Cancel an open conditional bet so it will not be placed.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        orderId: {
+          type: 'string',
+          description: 'The order ID returned by create_conditional_bet',
+        },
+      },
+      required: ['orderId'],
+    },
+  },
+  {
+    name: 'schedule_dca_bets',
+    description: '📆 Schedule dollar-cost-averaged bets: split a total amount into N equal bets spread evenly from startAt to endAt, which must be before betting ends. The schedule is stored on disk and each slice is placed automatically when due, limiting price impact on the pools.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        marketAddress: {
+          type: 'string',
+          description: 'The on-chain market address (or numeric market ID)',
+        },
+        totalAmount: {
+          type: 'string',
+          description: 'Total amount to bet across all slices, in the market currency (e.g. "10")',
+        },
+        betYes: {
+          type: 'boolean',
+          description: 'true to bet YES, false to bet NO',
+        },
+        sliceCount: {
           type: 'number',
-          description: 'Number of wallets to return (1-100)',
-          default: 10,
+          description: 'Number of bets to split the total into (1-100); each must meet the minimum bet',
+        },
+        startAt: {
+          type: 'number',
+          description: 'Optional Unix timestamp of the first slice (defaults to now)',
+        },
+        endAt: {
+          type: 'number',
+          description: 'Unix timestamp of the last slice; must be before the market betting end',
         },
+        ...CATEGORY_PROPERTY,
       },
+      required: ['marketAddress', 'totalAmount', 'betYes', 'sliceCount', 'endAt'],
     },
   },
-];
-
-// ============================================================================
-// Tool Handlers
-// ============================================================================
-
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: TOOLS,
-  };
-});
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    console.error(`\n${'='.repeat(60)}`);
-    console.error(`🔧 Tool called: ${name}`);
-    console.error(`📝 Arguments: ${JSON.stringify(args, null, 2)}`);
-    console.error(`⏰ Time: ${new Date().toISOString()}`);
-    console.error(`${'='.repeat(60)}\n`);
-
-    let response;
-
+  {
+    name: 'get_dca_progress',
+    description: '📈 Show the progress of DCA schedules: amount placed, slices filled, failed or skipped, and the next slice time. Pass scheduleId for the full slice list of one schedule.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        scheduleId: {
+          type: 'string',
+          description: 'Optional schedule ID returned by schedule_dca_bets',
+        },
+        status: {
+          type: 'string',
+          enum: ['active', 'completed', 'cancelled', 'expired'],
+          description: 'Only list schedules with this status',
+        },
+      },
+    },
+  },
+  {
+    name: 'cancel_dca_schedule',
+    description: '🚫 Cancel an active DCA schedule. Slices already placed stay on chain; the remaining slices are skipped.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        scheduleId: {
+          type: 'string',
+          description: 'The schedule ID returned by schedule_dca_bets',
+        },
+      },
+      required: ['scheduleId'],
+    },
+  },
+  {
+    name: 'claim_winnings',
+    description: '🏆 Claim winnings from a resolved market. Signs and submits a claim transaction for the agent wallet and returns the payout. The market currency (SOL or USDC) is detected automatically.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        marketAddress: {
+          type: 'string',
+          description: 'The on-chain market address (from market data)',
+        },
+      },
+      required: ['marketAddress'],
+    },
+  },
+  {
+    name: 'claim_all_winnings',
+    description: '🧹 Scan every position of the agent wallet and claim all resolved, unclaimed winnings. Markets that need a refund or have no winning bets are skipped. Returns a per-market report of payouts and failures.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+  {
+    name: 'resolve_market',
+    description: '⚖️ Resolve a market as its oracle (or as the protocol authority after the 24h oracle timeout). Checks resolution time and resolution status first, then returns the MarketResolved event data.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        marketAddress: {
+          type: 'string',
+          description: 'The on-chain market address',
+        },
+        outcome: {
+          type: 'boolean',
+          description: 'true if YES won, false if NO won',
+        },
+        asAuthority: {
+          type: 'boolean',
+          description: 'Resolve with resolve_market_by_authority instead of as the oracle (default: false)',
+          default: false,
+        },
+      },
+      required: ['marketAddress', 'outcome'],
+    },
+  },
+  {
+    name: 'explain_transaction',
+    description: '🔍 Explain any Sol Bets transaction: decodes each instruction (name, args, named accounts), emitted events and program errors, and reports fee and compute units with a readable summary. Free (reads from Solana RPC).',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        signature: {
+          type: 'string',
+          description: 'Transaction signature to explain',
+        },
+      },
+      required: ['signature'],
+    },
+  },
+  {
+    name: 'get_policy_status',
+    description: '📜 Show the spending policy (per-bet cap, daily caps, market and category exposure caps, allowed oracles and categories, blackout window) and the remaining headroom for each rule.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+  {
+    name: 'sync_event_index',
+    description: '📇 Update the local event index: walk the betting program\'s transaction history and store every BetPlaced, MarketCreated, MarketResolved, WinningsClaimed, FeesDistributed and MarketNeedsRefund event. Catches up to the newest transaction first, then continues the backfill; resumes from its checkpoint. Free (RPC only), no API calls.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        maxPages: {
+          type: 'number',
+          description: 'Most pages of 100 transactions to index in this call (default 10)',
+          default: 10,
+        },
+      },
+    },
+  },
+  {
+    name: 'run_backtest',
+    description: '🧪 Backtest a betting strategy over recorded market history from the local event index. Replays each market\'s bets, lets the strategy bet after every pool change while betting is open (with fees and its own price impact), settles on resolution, and reports ROI, hit rate, max drawdown and a per-market breakdown for each currency. Nothing is submitted.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        strategy: {
+          type: 'string',
+          enum: Object.keys(STRATEGIES),
+          description: 'underdog: bet once on a side priced below threshold (default 0.3). favorite: bet once on a side priced above threshold (default 0.7). momentum: bet once in the direction of a minMove (default 0.1) move in YES probability since the market was first seen.',
+        },
+        params: {
+          type: 'object',
+          description: 'Strategy parameters: stakeFraction (of bankroll per bet, default 0.02), threshold, minMove, maxSecondsToEnd (only bet in the final window before betting ends)',
+          properties: {
+            stakeFraction: { type: 'number' },
+            threshold: { type: 'number' },
+            minMove: { type: 'number' },
+            maxSecondsToEnd: { type: 'number' },
+          },
+        },
+        bankrollSol: {
+          type: 'string',
+          description: 'Starting SOL bankroll (e.g. "10"); SOL markets are skipped if omitted',
+        },
+        bankrollUsdc: {
+          type: 'string',
+          description: 'Starting USDC bankroll (e.g. "1000"); USDC markets are skipped if omitted',
+        },
+        marketIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional market IDs or addresses to restrict the backtest to',
+        },
+        since: {
+          type: 'number',
+          description: 'Optional Unix timestamp from which the strategy may bet; markets created earlier are still replayed from their creation',
+        },
+        until: {
+          type: 'number',
+          description: 'Optional Unix timestamp before which events are replayed',
+        },
+        refresh: {
+          type: 'boolean',
+          description: 'Sync the event index before replaying (default true)',
+          default: true,
+        },
+      },
+      required: ['strategy'],
+    },
+  },
+  {
+    name: 'get_protocol_stats',
+    description: 'Get platform-wide statistics including total volume, fees collected, number of markets, and TVL.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ...SOURCE_PROPERTY,
+      },
+    },
+  },
+  {
+    name: 'get_leaderboard',
+    description: 'Get top performing wallets sorted by volume, P&L, win rate, or fees earned. Shows the best traders.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        sortBy: {
+          type: 'string',
+          enum: ['volume', 'pnl', 'winRate', 'fees'],
+          description: 'Metric to sort by',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of wallets to return (1-100)',
+          default: 10,
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Protocol administration tools. Only listed when ADMIN_MODE=true and the
+ * agent wallet is allowed to perform the action (see admin.ts).
+ * Every tool previews by default; pass execute=true to send the transaction.
+ */
+const EXECUTE_PROPERTY = {
+  execute: {
+    type: 'boolean',
+    description: 'false (default) previews before/after Protocol state without sending; true sends the transaction',
+    default: false,
+  },
+};
+
+const ADMIN_TOOLS = [
+  {
+    name: 'admin_initialize_protocol',
+    description: '🛡️ ADMIN: Initialize the protocol with the agent wallet as authority. Only available before the Protocol account exists.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        treasury: {
+          type: 'string',
+          description: 'Treasury address that receives protocol fees',
+        },
+        ...EXECUTE_PROPERTY,
+      },
+      required: ['treasury'],
+    },
+  },
+  {
+    name: 'admin_pause_protocol',
+    description: '🛡️ ADMIN: Pause the protocol. New markets and bets are rejected while paused.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: { ...EXECUTE_PROPERTY },
+    },
+  },
+  {
+    name: 'admin_unpause_protocol',
+    description: '🛡️ ADMIN: Unpause the protocol.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: { ...EXECUTE_PROPERTY },
+    },
+  },
+  {
+    name: 'admin_add_whitelisted_oracle',
+    description: '🛡️ ADMIN: Add an oracle to the whitelist of official oracles.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        oracle: {
+          type: 'string',
+          description: 'Oracle public key',
+        },
+        ...EXECUTE_PROPERTY,
+      },
+      required: ['oracle'],
+    },
+  },
+  {
+    name: 'admin_remove_whitelisted_oracle',
+    description: '🛡️ ADMIN: Remove an oracle from the whitelist.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        oracle: {
+          type: 'string',
+          description: 'Oracle public key',
+        },
+        ...EXECUTE_PROPERTY,
+      },
+      required: ['oracle'],
+    },
+  },
+  {
+    name: 'admin_update_oracle_fee',
+    description: '🛡️ ADMIN: Update the fee charged for using a whitelisted oracle.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        newFee: {
+          type: 'string',
+          description: 'New oracle fee in lamports',
+        },
+        ...EXECUTE_PROPERTY,
+      },
+      required: ['newFee'],
+    },
+  },
+  {
+    name: 'admin_transfer_authority',
+    description: '🛡️ ADMIN: Start a two-step authority transfer. The new authority must call admin_accept_authority.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        newAuthority: {
+          type: 'string',
+          description: 'Public key of the new authority',
+        },
+        ...EXECUTE_PROPERTY,
+      },
+      required: ['newAuthority'],
+    },
+  },
+  {
+    name: 'admin_accept_authority',
+    description: '🛡️ ADMIN: Accept a pending authority transfer. Only available when the agent wallet is the pending authority.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: { ...EXECUTE_PROPERTY },
+    },
+  },
+];
+
+/**
+ * Map an admin tool call to its AdminAction
+ */
+function toAdminAction(name: string, args: Record<string, any>): AdminAction | null {
+  switch (name) {
+    case 'admin_initialize_protocol':
+      return { type: 'initializeProtocol', treasury: args.treasury };
+    case 'admin_pause_protocol':
+      return { type: 'pauseProtocol' };
+    case 'admin_unpause_protocol':
+      return { type: 'unpauseProtocol' };
+    case 'admin_add_whitelisted_oracle':
+      return { type: 'addWhitelistedOracle', oracle: args.oracle };
+    case 'admin_remove_whitelisted_oracle':
+      return { type: 'removeWhitelistedOracle', oracle: args.oracle };
+    case 'admin_update_oracle_fee':
+      return { type: 'updateOracleFee', newFee: String(args.newFee) };
+    case 'admin_transfer_authority':
+      return { type: 'transferAuthority', newAuthority: args.newAuthority };
+    case 'admin_accept_authority':
+      return { type: 'acceptAuthority' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Refuse writes that paper trading has no simulation for (claims,
+ * resolution, admin actions), so paper mode never sends a transaction
+ */
+function assertNotPaperTrading(action: string): void {
+  if (PAPER_TRADING) {
+    throw createInvalidInputError(`${action} is disabled while PAPER_TRADING=true`, {
+      paperTrading: true,
+      hint: 'Paper positions settle automatically; see get_paper_performance.',
+    });
+  }
+}
+
+/**
+ * Refuse reads of another wallet while paper trading, since the paper ledger
+ * only holds the agent wallet's simulated positions
+ */
+function assertPaperWallet(requested: string): void {
+  if (requested !== walletAddress) {
+    throw createInvalidInputError(`Paper trading only tracks the agent wallet ${walletAddress}, not ${requested}`, {
+      paperTrading: true,
+      hint: 'Pass the agent wallet; other wallets have no paper positions.',
+    });
+  }
+}
+
+/**
+ * Tool result body of a paper bet, with amounts formatted in its currency
+ */
+function paperBetBody(
+  bet: Awaited<ReturnType<typeof placePaperBet>>['bet'],
+  outcome: Awaited<ReturnType<typeof placePaperBet>>['outcome']
+) {
+  return {
+    bet,
+    outcome: toPlainObject(outcome),
+    formatted: {
+      fees: formatAmount(outcome.totalFee, bet.currencyType),
+      netAmount: formatAmount(outcome.netAmount, bet.currencyType),
+      payoutIfWins: formatAmount(outcome.betPayoutIfWins, bet.currencyType),
+    },
+  };
+}
+
+/**
+ * Admin tools the agent wallet may currently use (empty unless ADMIN_MODE=true)
+ */
+async function getAvailableAdminTools() {
+  if (!ADMIN_MODE) return [];
+
+  try {
+    const access = await getAdminAccess(
+      new Connection(SOLANA_RPC_URL),
+      Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!))
+    );
+    return ADMIN_TOOLS.filter((tool) => {
+      const action = toAdminAction(tool.name, {});
+      return action !== null && isActionAllowed(access, action.type);
+    });
+  } catch (error) {
+    console.error('⚠️  Could not check protocol authority:', error);
+    return [];
+  }
+}
+
+// ============================================================================
+// Tool Handlers
+// ============================================================================
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [...TOOLS, ...(await getAvailableAdminTools())],
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+
+  try {
+    console.error(`\n${'='.repeat(60)}`);
+    console.error(`🔧 Tool called: ${name}`);
+    console.error(`📝 Arguments: ${JSON.stringify(args, null, 2)}`);
+    console.error(`⏰ Time: ${new Date().toISOString()}`);
+    console.error(`${'='.repeat(60)}\n`);
+
+    let response;
+
     switch (name) {
       case 'search_markets': {
         const params: Record<string, string> = {};
@@ -587,22 +1433,71 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'get_market_details': {
-        const { marketId } = args as { marketId: string };
+        const { marketId, source = READ_SOURCE } = args as { marketId: string; source?: ReadSource };
+        const chainData = await readFromChain(source, () =>
+          getMarketFromChain(new Connection(SOLANA_RPC_URL), marketId)
+        );
+        if (chainData) return toolResult(chainData);
+
         response = await x402Client.fetch(`${API_URL}/ai/markets/${marketId}`);
         break;
       }
 
       case 'get_market_odds': {
-        const { marketId } = args as { marketId: string };
+        const { marketId, source = READ_SOURCE } = args as { marketId: string; source?: ReadSource };
+        const chainData = await readFromChain(source, () =>
+          getMarketOddsFromChain(
+            new Connection(SOLANA_RPC_URL),
+            marketId,
+            Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!))
+          )
+        );
+        if (chainData) return toolResult(chainData);
+
         response = await x402Client.fetch(`${API_URL}/ai/markets/${marketId}/odds`);
         break;
       }
 
+      case 'get_odds_history': {
+        const { marketId, bucket = '1h', since, until, refresh = true } = args as {
+          marketId: string;
+          bucket?: string;
+          since?: number;
+          until?: number;
+          refresh?: boolean;
+        };
+
+        try {
+          const history = await getOddsHistory(new Connection(SOLANA_RPC_URL), EVENT_INDEX_DIR, marketId, bucket, {
+            since,
+            until,
+            refresh,
+          });
+          return toolResult(history);
+        } catch (error) {
+          const bettingError = decodeError(error);
+          return bettingError.toMCPError('Failed to build odds history');
+        }
+      }
+
       case 'calculate_bet_outcome': {
-        const { marketId, amount, betYes } = args as { marketId: string; amount: string; betYes: boolean };
+        const { marketId, amount, betYes, currencyType, walletAddress, source = READ_SOURCE } = args as {
+          marketId: string;
+          amount: string;
+          betYes: boolean;
+          currencyType?: 'SOL' | 'USDC';
+          walletAddress?: string;
+          source?: ReadSource;
+        };
+        const chainData = await readFromChain(source, () =>
+          calculateBetOutcomeFromChain(new Connection(SOLANA_RPC_URL), marketId, amount, betYes, walletAddress)
+        );
+        if (chainData) return toolResult(chainData);
 
-        // Convert amount to smallest unit (USDC has 6 decimals)
-        const amountInSmallestUnit = toSmallestUnit(amount, 6);
+        // Convert amount to smallest unit of the market currency (SOL: 9 decimals, USDC: 6)
+        const currency = currencyType ??
+          toCurrencyType((await fetchMarketAccount(new Connection(SOLANA_RPC_URL), marketId)).account.currencyType);
+        const amountInSmallestUnit = parseAmount(amount, currency).toString();
 
         response = await x402Client.fetch(`${API_URL}/ai/betting/calculate-odds`, {
           method: 'POST',
@@ -616,8 +1511,82 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         break;
       }
 
+      case 'suggest_bet_size': {
+        const { marketId, probability, bankroll, kellyFraction = 0.5 } = args as {
+          marketId: string;
+          probability: number;
+          bankroll?: string;
+          kellyFraction?: number;
+        };
+
+        const suggestion = await suggestBetSizeFromChain(
+          new Connection(SOLANA_RPC_URL),
+          marketId,
+          probability,
+          kellyFraction,
+          keypairForDisplay.publicKey,
+          bankroll
+        );
+
+        return toolResult({
+          success: true,
+          ...suggestion,
+          message: suggestion.side
+            ? `Suggested bet: ${suggestion.formatted.amount} ${suggestion.currencyType} on ${suggestion.side}`
+            : `No bet suggested: ${suggestion.reason}`,
+        });
+      }
+
+      case 'calculate_hedge': {
+        const { marketId, walletAddress: owner = walletAddress, mode = 'equalize', maxLoss } = args as {
+          marketId: string;
+          walletAddress?: string;
+          mode?: HedgeMode;
+          maxLoss?: string;
+        };
+
+        const hedge = await calculateHedgeFromChain(
+          new Connection(SOLANA_RPC_URL),
+          marketId,
+          owner,
+          mode,
+          maxLoss
+        );
+
+        return toolResult({
+          success: true,
+          ...hedge,
+          message: hedge.side
+            ? `Hedge: bet ${hedge.formatted.amount} ${hedge.currencyType} on ${hedge.side}. ${hedge.reason}`
+            : hedge.reason,
+        });
+      }
+
       case 'get_user_position': {
-        const { marketId, walletAddress } = args as { marketId: string; walletAddress: string };
+        const { marketId, walletAddress, source = READ_SOURCE } = args as {
+          marketId: string;
+          walletAddress: string;
+          source?: ReadSource;
+        };
+        if (PAPER_TRADING) {
+          try {
+            assertPaperWallet(walletAddress);
+            return toolResult(await getPaperPosition(new Connection(SOLANA_RPC_URL), PAPER_LEDGER, marketId));
+          } catch (error) {
+            return decodeError(error).toMCPError('Failed to read paper position');
+          }
+        }
+
+        const chainData = await readFromChain(source, () =>
+          getUserPositionFromChain(
+            new Connection(SOLANA_RPC_URL),
+            marketId,
+            walletAddress,
+            Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!))
+          )
+        );
+        if (chainData) return toolResult(chainData);
+
         response = await x402Client.fetch(
           `${API_URL}/ai/betting/position/${marketId}/${walletAddress}`
         );
@@ -626,22 +1595,150 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'get_portfolio_stats': {
         const { walletAddress } = args as { walletAddress: string };
+        if (PAPER_TRADING) {
+          try {
+            assertPaperWallet(walletAddress);
+            return toolResult(await getPaperPortfolio(new Connection(SOLANA_RPC_URL), PAPER_LEDGER));
+          } catch (error) {
+            return decodeError(error).toMCPError('Failed to read paper portfolio');
+          }
+        }
+
         response = await x402Client.fetch(`${API_URL}/ai/portfolio/${walletAddress}`);
         break;
       }
 
-      case 'place_bet': {
-        const { marketAddress, marketId, amount, betYes, currencyType } = args as {
-          marketAddress: string;
-          marketId: number;
-          amount: string;
-          betYes: boolean;
-          currencyType: 'SOL' | 'USDC';
-        };
+      case 'get_wallet_history': {
+        const { walletAddress, types, marketId, currencyType, since, until, cursor, limit, refresh } = args as {
+          walletAddress: string;
+          types?: HistoryItemType[];
+          marketId?: string;
+          currencyType?: 'SOL' | 'USDC';
+          since?: number;
+          until?: number;
+          cursor?: string;
+          limit?: number;
+          refresh?: boolean;
+        };
+
+        try {
+          const history = await getWalletHistory(
+            new Connection(SOLANA_RPC_URL),
+            EVENT_INDEX_DIR,
+            walletAddress,
+            { types, marketId, currencyType, since, until },
+            { cursor, limit, refresh }
+          );
+          return toolResult(history);
+        } catch (error) {
+          const bettingError = decodeError(error);
+          return bettingError.toMCPError('Failed to read wallet history');
+        }
+      }
+
+      case 'get_pnl_report': {
+        const { walletAddress: wallet = walletAddress, includePositions = true } = (args ?? {}) as {
+          walletAddress?: string;
+          includePositions?: boolean;
+        };
+
+        try {
+          const report = await getPnlReport(new Connection(SOLANA_RPC_URL), wallet, EVENT_INDEX_DIR, includePositions);
+          return toolResult(report);
+        } catch (error) {
+          const bettingError = decodeError(error);
+          return bettingError.toMCPError('Failed to build P&L report');
+        }
+      }
+
+      case 'place_bet': {
+        const {
+          marketAddress,
+          marketId,
+          amount,
+          betYes,
+          currencyType: requestedCurrency,
+          category,
+          idempotencyKey,
+          dryRun = false,
+        } = args as {
+          marketAddress: string;
+          marketId: number;
+          amount: string;
+          betYes: boolean;
+          currencyType?: 'SOL' | 'USDC';
+          category?: string;
+          idempotencyKey?: string;
+          dryRun?: boolean;
+        };
+
+        // Scale the amount by the market's own currency, never the caller's
+        let currencyType: Currency;
+        try {
+          currencyType = await fetchMarketCurrency(new Connection(SOLANA_RPC_URL), marketAddress, requestedCurrency);
+        } catch (error) {
+          return decodeError(error).toMCPError('Failed to place bet on Solana');
+        }
+
+        if (PAPER_TRADING) {
+          try {
+            const connection = new Connection(SOLANA_RPC_URL);
+            const amountSmallest = parseAmount(amount, currencyType).toString();
+            const paperBet = (simulate: boolean) => placePaperBet(
+              connection,
+              PAPER_LEDGER,
+              { marketAddress, marketId, amount: amountSmallest, betYes, currencyType, category },
+              POLICY,
+              simulate
+            );
+            const description = `${amount} ${currencyType} on ${betYes ? 'YES' : 'NO'}`;
+
+            // A dry run records nothing, so it bypasses the idempotency store
+            if (dryRun || !idempotencyKey) {
+              const { bet, outcome } = await paperBet(dryRun);
+              return toolResult({
+                success: true,
+                paperTrading: true,
+                dryRun,
+                ...paperBetBody(bet, outcome),
+                message: dryRun
+                  ? `Dry run: paper bet of ${description} is valid (nothing was recorded)`
+                  : `Paper bet recorded: ${description} (nothing was submitted)`,
+              });
+            }
+
+            const { record, replayed } = await withIdempotency(
+              connection,
+              PAPER_IDEMPOTENCY_STORE,
+              idempotencyKey,
+              { marketAddress, marketId, amount: amountSmallest, betYes, currencyType },
+              'betPlaced',
+              async () => {
+                const { bet, outcome } = await paperBet(false);
+                return { signature: null, event: paperBetBody(bet, outcome) };
+              }
+            );
+
+            return toolResult({
+              success: true,
+              paperTrading: true,
+              ...record.event,
+              idempotencyKey,
+              replayed,
+              message: replayed
+                ? `Paper bet with idempotency key ${idempotencyKey} was already recorded; returning the original result`
+                : `Paper bet recorded: ${description} (nothing was submitted)`,
+            });
+          } catch (error) {
+            return decodeError(error).toMCPError('Failed to record paper bet');
+          }
+        }
+
+        const simulateOnly = DRY_RUN || dryRun;
 
         console.error(`\n🤖 AI AGENT PLACING BET`);
         console.error(`${'='.repeat(60)}`);
-        console.error(`   This is a REAL transaction!`);
+        console.error(simulateOnly ? `   DRY RUN - nothing will be submitted` : `   This is a REAL transaction!`);
         console.error(`   Market: ${marketAddress}`);
         console.error(`   Amount: ${amount} ${currencyType}`);
         console.error(`   Side: ${betYes ? 'YES' : 'NO'}`);
@@ -651,63 +1748,173 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           const connection = new Connection(SOLANA_RPC_URL);
           const wallet = Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!));
 
-          let signature: string;
+          const amountSmallest = parseAmount(amount, currencyType).toString();
 
-          if (currencyType === 'SOL') {
-            // Convert amount to lamports
-            const amountLamports = (parseFloat(amount) * 1e9).toString();
-            signature = await placeBetSol(
+          const submit = (): Promise<BetResult> =>
+            placeBetWithPolicy(
               connection,
               wallet,
-              marketAddress,
-              marketId,
-              amountLamports,
-              betYes
+              POLICY,
+              { marketAddress, marketId, currencyType, amount: amountSmallest, betYes, category },
+              simulateOnly
             );
-          } else {
-            // Convert amount to micro-USDC
-            const amountMicroUsdc = (parseFloat(amount) * 1e6).toString();
-            signature = await placeBetUsdc(
-              connection,
-              wallet,
+
+          // Dry runs submit nothing, so they bypass the idempotency store
+          if (simulateOnly || !idempotencyKey) {
+            const result = await submit();
+
+            if (result.simulation) {
+              return toolResult({
+                success: result.simulation.wouldSucceed,
+                dryRun: true,
+                event: result.event,
+                simulation: result.simulation,
+                message: result.simulation.wouldSucceed
+                  ? `Dry run: bet of ${amount} ${currencyType} on ${betYes ? 'YES' : 'NO'} would succeed`
+                  : `Dry run: bet would fail (${result.simulation.error?.code})`,
+              });
+            }
+
+            // Return success with signature and the decoded BetPlaced event
+            return toolResult({
+              success: true,
+              signature: result.signature,
+              event: result.event,
+              explorerUrl: `https://explorer.solana.com/tx/${result.signature}?cluster=${NETWORK}`,
+              message: `Bet placed successfully! ${amount} ${currencyType} on ${betYes ? 'YES' : 'NO'}`,
+            });
+          }
+
+          const { record, replayed } = await withIdempotency(
+            connection,
+            IDEMPOTENCY_STORE,
+            idempotencyKey,
+            { marketAddress, marketId, amount: amountSmallest, betYes, currencyType },
+            'betPlaced',
+            submit
+          );
+
+          return toolResult({
+            success: true,
+            signature: record.signature,
+            event: record.event,
+            idempotencyKey,
+            status: record.status,
+            replayed,
+            explorerUrl: `https://explorer.solana.com/tx/${record.signature}?cluster=${NETWORK}`,
+            message: replayed
+              ? `Bet with idempotency key ${idempotencyKey} was already placed; returning the original result`
+              : `Bet placed successfully! ${amount} ${currencyType} on ${betYes ? 'YES' : 'NO'}`,
+          });
+        } catch (error) {
+          const bettingError = decodeError(error);
+          console.error(`❌ Bet placement failed:`, bettingError.message);
+
+          return bettingError.toMCPError('Failed to place bet on Solana');
+        }
+      }
+
+      case 'prepare_bet': {
+        const { marketAddress, marketId, amount, betYes, currencyType: requestedCurrency, category } = args as {
+          marketAddress: string;
+          marketId: number;
+          amount: string;
+          betYes: boolean;
+          currencyType?: 'SOL' | 'USDC';
+          category?: string;
+        };
+
+        try {
+          const connection = new Connection(SOLANA_RPC_URL);
+          const wallet = Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!));
+          const currencyType = await fetchMarketCurrency(connection, marketAddress, requestedCurrency);
+
+          const prepared = await prepareBet(
+            connection,
+            wallet,
+            {
               marketAddress,
               marketId,
-              amountMicroUsdc,
-              betYes
-            );
+              amount,
+              amountSmallest: parseAmount(amount, currencyType).toString(),
+              betYes,
+              currencyType,
+              category,
+            },
+            BET_CONFIRMATION_TTL_MS,
+            POLICY
+          );
+
+          return toolResult({
+            success: true,
+            ...prepared,
+            message: `Prepared bet of ${amount} ${currencyType} on ${betYes ? 'YES' : 'NO'} in "${prepared.marketTitle}". ` +
+              `Call confirm_bet with the confirmationToken before ${prepared.expiresAt} to execute it.`,
+          });
+        } catch (error) {
+          const bettingError = decodeError(error);
+          console.error(`❌ Bet preparation failed:`, bettingError.message);
+
+          return bettingError.toMCPError('Failed to prepare bet');
+        }
+      }
+
+      case 'confirm_bet': {
+        const { confirmationToken, dryRun = false } = args as {
+          confirmationToken: string;
+          dryRun?: boolean;
+        };
+        // Paper trading records the confirmed bet in the paper ledger instead of simulating it
+        const simulateOnly = dryRun || (DRY_RUN && !PAPER_TRADING);
+
+        try {
+          const connection = new Connection(SOLANA_RPC_URL);
+          const wallet = Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!));
+
+          const { bet, result, paper } = await confirmBet(
+            connection,
+            wallet,
+            confirmationToken,
+            simulateOnly,
+            POLICY,
+            PAPER_TRADING ? PAPER_LEDGER : null
+          );
+          const description = `${bet.amount} ${bet.currencyType} on ${bet.betYes ? 'YES' : 'NO'}`;
+
+          if (paper) {
+            return toolResult({
+              success: true,
+              paperTrading: true,
+              ...paperBetBody(paper.bet, paper.outcome),
+              message: `Confirmed paper bet recorded: ${description} (nothing was submitted)`,
+            });
           }
 
-          // Return success with signature
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  success: true,
-                  signature,
-                  explorerUrl: `https://explorer.solana.com/tx/${signature}?cluster=${NETWORK}`,
-                  message: `Bet placed successfully! ${amount} ${currencyType} on ${betYes ? 'YES' : 'NO'}`,
-                }, null, 2),
-              },
-            ],
-          };
+          if (result.simulation) {
+            return toolResult({
+              success: result.simulation.wouldSucceed,
+              dryRun: true,
+              bet,
+              event: result.event,
+              simulation: result.simulation,
+              message: result.simulation.wouldSucceed
+                ? `Dry run: confirmed bet of ${description} would succeed`
+                : `Dry run: confirmed bet would fail (${result.simulation.error?.code})`,
+            });
+          }
+
+          return toolResult({
+            success: true,
+            signature: result.signature,
+            event: result.event,
+            explorerUrl: `https://explorer.solana.com/tx/${result.signature}?cluster=${NETWORK}`,
+            message: `Confirmed bet placed! ${description}`,
+          });
         } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          console.error(`❌ Bet placement failed:`, errorMessage);
+          const bettingError = decodeError(error);
+          console.error(`❌ Bet confirmation failed:`, bettingError.message);
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  success: false,
-                  error: errorMessage,
-                  message: 'Failed to place bet on Solana',
-                }, null, 2),
-              },
-            ],
-            isError: true,
-          };
+          return bettingError.toMCPError('Failed to confirm bet');
         }
       }
 
@@ -722,6 +1929,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           resolutionTime,
           oracleAddress,
           currencyType,
+          dryRun = false,
         } = args as {
           title: string;
           description: string;
@@ -732,11 +1940,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           resolutionTime: number;
           oracleAddress: string;
           currencyType: 'SOL' | 'USDC';
+          dryRun?: boolean;
         };
+        const simulateOnly = DRY_RUN || dryRun;
 
         console.error(`\n🏗️ AI AGENT CREATING MARKET`);
         console.error(`${'='.repeat(60)}`);
-        console.error(`   This will create a REAL market on Solana!`);
+        console.error(simulateOnly ? `   DRY RUN - nothing will be submitted` : `   This will create a REAL market on Solana!`);
         console.error(`   Title: ${title}`);
         console.error(`   Category: ${category}`);
         console.error(`   Currency: ${currencyType}`);
@@ -746,6 +1956,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         console.error(`${'='.repeat(60)}\n`);
 
         try {
+          if (POLICY) {
+            checkMarketCreation(POLICY, { oracleAddress, category });
+          }
+
           // Step 1: Generate/upload metadata (with AI-generated image if needed)
           const metadata = await uploadMetadata(description, category, tags, imageUrl, title);
 
@@ -762,9 +1976,28 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             bettingEnds,
             resolutionTime,
             oracleAddress,
-            currencyType
+            currencyType,
+            simulateOnly
           );
 
+          if (result.simulation) {
+            return toolResult({
+              success: result.simulation.wouldSucceed,
+              dryRun: true,
+              marketId: result.marketId,
+              marketAddress: result.marketAddress,
+              event: result.event,
+              simulation: result.simulation,
+              message: result.simulation.wouldSucceed
+                ? `Dry run: market "${title}" would be created as market ${result.marketId}`
+                : `Dry run: market creation would fail (${result.simulation.error?.code})`,
+            });
+          }
+
+          if (POLICY) {
+            recordMarketCategory(POLICY, result.marketAddress, category);
+          }
+
           return {
             content: [
               {
@@ -775,6 +2008,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                     signature: result.signature,
                     marketId: result.marketId,
                     marketAddress: result.marketAddress,
+                    event: result.event,
                     explorerUrl: `https://explorer.solana.com/tx/${result.signature}?cluster=${NETWORK}`,
                     marketUrl: `${API_URL}/markets/${result.marketId}`,
                     message: `Market created successfully! Market ID: ${result.marketId}`,
@@ -786,30 +2020,324 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             ],
           };
         } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          console.error(`❌ Market creation failed:`, errorMessage);
+          const bettingError = decodeError(error);
+          console.error(`❌ Market creation failed:`, bettingError.message);
+
+          return bettingError.toMCPError('Failed to create market on Solana');
+        }
+      }
+
+      case 'create_conditional_bet': {
+        const { marketAddress, amount, betYes, condition, threshold, expiresAt, category } = args as {
+          marketAddress: string;
+          amount: string;
+          betYes: boolean;
+          condition: 'below' | 'above';
+          threshold: number;
+          expiresAt?: number;
+          category?: string;
+        };
+
+        const order = await createConditionalOrder(new Connection(SOLANA_RPC_URL), CONDITIONAL_ORDER_STORE, {
+          marketAddress,
+          amount,
+          betYes,
+          condition,
+          threshold,
+          expiresAt,
+          category,
+        });
+
+        return toolResult({
+          success: true,
+          order,
+          watcherEnabled: CONDITIONAL_ORDER_POLL_MS > 0,
+          message: `Conditional bet ${order.id} created: ${describeOrder(order)}, expires ${order.expiresAt}`,
+        });
+      }
+
+      case 'list_conditional_bets': {
+        const { status } = (args ?? {}) as { status?: OrderStatus };
+        const orders = listConditionalOrders(CONDITIONAL_ORDER_STORE, status);
+
+        return toolResult({
+          count: orders.length,
+          orders: orders.map((order) => ({ ...order, description: describeOrder(order) })),
+        });
+      }
+
+      case 'cancel_conditional_bet': {
+        const { orderId } = args as { orderId: string };
+        const order = cancelConditionalOrder(CONDITIONAL_ORDER_STORE, orderId);
+
+        return toolResult({
+          success: true,
+          order,
+          message: `Conditional bet ${order.id} cancelled`,
+        });
+      }
+
+      case 'schedule_dca_bets': {
+        const { marketAddress, totalAmount, betYes, sliceCount, startAt, endAt, category } = args as {
+          marketAddress: string;
+          totalAmount: string;
+          betYes: boolean;
+          sliceCount: number;
+          startAt?: number;
+          endAt: number;
+          category?: string;
+        };
+
+        const schedule = await createDcaSchedule(new Connection(SOLANA_RPC_URL), DCA_STORE, {
+          marketAddress,
+          totalAmount,
+          betYes,
+          sliceCount,
+          startAt,
+          endAt,
+          category,
+        });
+        const progress = getDcaProgress(schedule);
+
+        return toolResult({
+          success: true,
+          schedule,
+          runnerEnabled: DCA_POLL_MS > 0,
+          message: `DCA schedule ${schedule.id} created: ${progress.total} ${schedule.currencyType} on ` +
+            `${progress.side} in ${schedule.slices.length} slices from ${schedule.startAt} to ${schedule.endAt}`,
+        });
+      }
+
+      case 'get_dca_progress': {
+        const { scheduleId, status } = (args ?? {}) as { scheduleId?: string; status?: ScheduleStatus };
+
+        if (scheduleId) {
+          const schedule = getDcaSchedule(DCA_STORE, scheduleId);
+          return toolResult({ progress: getDcaProgress(schedule), schedule });
+        }
+
+        const schedules = listDcaSchedules(DCA_STORE, status);
+        return toolResult({
+          count: schedules.length,
+          schedules: schedules.map(getDcaProgress),
+        });
+      }
+
+      case 'cancel_dca_schedule': {
+        const { scheduleId } = args as { scheduleId: string };
+        const schedule = cancelDcaSchedule(DCA_STORE, scheduleId);
+
+        return toolResult({
+          success: true,
+          progress: getDcaProgress(schedule),
+          message: `DCA schedule ${schedule.id} cancelled`,
+        });
+      }
+
+      case 'claim_winnings': {
+        const { marketAddress } = args as { marketAddress: string };
+
+        console.error(`\n🤖 AI AGENT CLAIMING WINNINGS`);
+        console.error(`${'='.repeat(60)}`);
+        console.error(`   Market: ${marketAddress}`);
+        console.error(`${'='.repeat(60)}\n`);
+
+        try {
+          assertNotPaperTrading('claim_winnings');
+          const connection = new Connection(SOLANA_RPC_URL);
+          const wallet = Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!));
+
+          const result = await claimWinnings(connection, wallet, marketAddress);
+          const payout = result.payoutAmount !== null
+            ? formatAmount(result.payoutAmount, result.currencyType)
+            : null;
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  signature: result.signature,
+                  currencyType: result.currencyType,
+                  payoutAmount: result.payoutAmount,
+                  payout,
+                  event: result.event,
+                  explorerUrl: `https://explorer.solana.com/tx/${result.signature}?cluster=${NETWORK}`,
+                  message: payout !== null
+                    ? `Winnings claimed! Payout: ${payout} ${result.currencyType}`
+                    : 'Winnings claimed! Payout could not be read from transaction logs',
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          const bettingError = decodeError(error);
+          console.error(`❌ Claim failed:`, bettingError.message);
+
+          return bettingError.toMCPError('Failed to claim winnings on Solana');
+        }
+      }
+
+      case 'claim_all_winnings': {
+        try {
+          assertNotPaperTrading('claim_all_winnings');
+          const connection = new Connection(SOLANA_RPC_URL);
+          const wallet = Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!));
+
+          const report = await claimAllWinnings(connection, wallet);
 
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(
-                  {
-                    success: false,
-                    error: errorMessage,
-                    message: 'Failed to create market on Solana',
-                  },
-                  null,
-                  2
-                ),
+                text: JSON.stringify({
+                  success: report.failed.length === 0,
+                  ...report,
+                  message: `Claimed ${report.claimed.length} of ${report.claimable} winning positions`,
+                }, null, 2),
               },
             ],
-            isError: true,
           };
+        } catch (error) {
+          const bettingError = decodeError(error);
+          console.error(`❌ Claim sweep failed:`, bettingError.message);
+
+          return bettingError.toMCPError('Failed to sweep winnings');
+        }
+      }
+
+      case 'resolve_market': {
+        const { marketAddress, outcome, asAuthority = false } = args as {
+          marketAddress: string;
+          outcome: boolean;
+          asAuthority?: boolean;
+        };
+
+        try {
+          assertNotPaperTrading('resolve_market');
+          const connection = new Connection(SOLANA_RPC_URL);
+          const wallet = Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!));
+
+          const result = asAuthority
+            ? await resolveMarketByAuthority(connection, wallet, marketAddress, outcome)
+            : await resolveMarket(connection, wallet, marketAddress, outcome);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  signature: result.signature,
+                  marketId: result.marketId,
+                  outcome: result.outcome ? 'YES' : 'NO',
+                  event: result.event,
+                  explorerUrl: `https://explorer.solana.com/tx/${result.signature}?cluster=${NETWORK}`,
+                  message: `Market resolved to ${result.outcome ? 'YES' : 'NO'}`,
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          const bettingError = decodeError(error);
+          console.error(`❌ Resolution failed:`, bettingError.message);
+
+          return bettingError.toMCPError('Failed to resolve market on Solana');
+        }
+      }
+
+      case 'explain_transaction': {
+        const { signature } = args as { signature: string };
+        const explanation = await explainTransaction(new Connection(SOLANA_RPC_URL), signature);
+        return toolResult({
+          ...explanation,
+          explorerUrl: `https://explorer.solana.com/tx/${signature}?cluster=${NETWORK}`,
+        });
+      }
+
+      case 'get_paper_performance': {
+        return toolResult(await getPaperPerformance(new Connection(SOLANA_RPC_URL), PAPER_LEDGER));
+      }
+
+      case 'sync_event_index': {
+        const { maxPages = 10 } = (args ?? {}) as { maxPages?: number };
+
+        try {
+          const report = await syncEventIndex(new Connection(SOLANA_RPC_URL), EVENT_INDEX_DIR, maxPages);
+          return toolResult({
+            ...report,
+            message: report.upToDate
+              ? `Index is up to date (${report.checkpoint.events} events from ${report.checkpoint.transactions} transactions)`
+              : `Indexed ${report.transactions} transactions; call again to continue`,
+          });
+        } catch (error) {
+          const bettingError = decodeError(error);
+          return bettingError.toMCPError('Failed to sync the event index');
+        }
+      }
+
+      case 'run_backtest': {
+        const { strategy, params = {}, bankrollSol, bankrollUsdc, marketIds, since, until, refresh = true } = args as {
+          strategy: string;
+          params?: StrategyParams;
+          bankrollSol?: string;
+          bankrollUsdc?: string;
+          marketIds?: string[];
+          since?: number;
+          until?: number;
+          refresh?: boolean;
+        };
+
+        try {
+          if (!bankrollSol && !bankrollUsdc) {
+            throw createInvalidInputError('Provide bankrollSol and/or bankrollUsdc');
+          }
+
+          const report = await backtestFromIndex(new Connection(SOLANA_RPC_URL), EVENT_INDEX_DIR, strategy, params, {
+            bankroll: {
+              ...(bankrollSol ? { SOL: bankrollSol } : {}),
+              ...(bankrollUsdc ? { USDC: bankrollUsdc } : {}),
+            },
+            marketIds,
+            since,
+            until,
+            refresh,
+          });
+          return toolResult(report);
+        } catch (error) {
+          const bettingError = decodeError(error);
+          return bettingError.toMCPError('Failed to run backtest');
+        }
+      }
+
+      case 'get_policy_status': {
+        if (!POLICY) {
+          return toolResult({
+            enabled: false,
+            message: 'No spending policy loaded. Set POLICY_FILE to enable one.',
+          });
+        }
+
+        try {
+          const status = await getPolicyStatus(new Connection(SOLANA_RPC_URL), POLICY);
+          return toolResult({ enabled: true, ...status });
+        } catch (error) {
+          const bettingError = decodeError(error);
+          return bettingError.toMCPError('Failed to read policy status');
         }
       }
 
       case 'get_protocol_stats': {
+        const { source = READ_SOURCE } = (args ?? {}) as { source?: ReadSource };
+        const chainData = await readFromChain(source, () =>
+          getProtocolStatsFromChain(
+            new Connection(SOLANA_RPC_URL),
+            Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!))
+          )
+        );
+        if (chainData) return toolResult(chainData);
+
         response = await x402Client.fetch(`${API_URL}/ai/protocol/stats`);
         break;
       }
@@ -822,23 +2350,61 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         break;
       }
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+      default: {
+        const adminAction = toAdminAction(name, (args ?? {}) as Record<string, any>);
+        if (!adminAction) {
+          throw createInvalidInputError(`Unknown tool: ${name}`);
+        }
+
+        const availableAdminTools = await getAvailableAdminTools();
+        if (!availableAdminTools.some((tool) => tool.name === name)) {
+          throw createProgramError(
+            'UnauthorizedAuthority',
+            `Admin tool ${name} is not available (requires ADMIN_MODE=true and the agent wallet to be the protocol authority)`
+          );
+        }
+
+        const { execute = false } = (args ?? {}) as { execute?: boolean };
+
+        try {
+          if (execute) assertNotPaperTrading(name);
+
+          const connection = new Connection(SOLANA_RPC_URL);
+          const wallet = Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!));
+
+          const result = await runAdminAction(connection, wallet, adminAction, execute);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  ...result,
+                  explorerUrl: result.signature
+                    ? `https://explorer.solana.com/tx/${result.signature}?cluster=${NETWORK}`
+                    : undefined,
+                  message: result.executed
+                    ? `Admin action ${result.action} executed`
+                    : `Preview of ${result.action} - call again with execute=true to send`,
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          const bettingError = decodeError(error);
+          console.error(`❌ Admin action failed:`, bettingError.message);
+
+          return bettingError.toMCPError(`Failed to run admin action ${adminAction.type}`);
+        }
+      }
     }
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ message: response.statusText }));
       console.error(`\n❌ API Error (${response.status}):`, errorData);
       console.error(`${'='.repeat(60)}\n`);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `API Error (${response.status}): ${JSON.stringify(errorData, null, 2)}`,
-          },
-        ],
-        isError: true,
-      };
+      return createApiError(response.status, errorData).toMCPError(`Tool ${name} failed`);
     }
 
     const data = await response.json();
@@ -878,18 +2444,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     };
 
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(`❌ Error executing tool ${name}:`, errorMessage);
+    const bettingError = decodeError(error);
+    console.error(`❌ Error executing tool ${name}:`, bettingError.message);
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error: ${errorMessage}`,
-        },
-      ],
-      isError: true,
-    };
+    return bettingError.toMCPError(`Tool ${name} failed`);
   }
 });
 
@@ -901,8 +2459,50 @@ async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('✅ Sol Bets MCP Server running on stdio');
-  console.error('📚 11 tools available for Claude');
+  console.error(`📚 ${TOOLS.length} tools available for Claude`);
   console.error('💳 x402 payments enabled');
+
+  if (AUTO_CLAIM_INTERVAL_MS > 0 && PAPER_TRADING) {
+    console.error('🧹 Auto-claim sweeper disabled while paper trading');
+  } else if (AUTO_CLAIM_INTERVAL_MS > 0) {
+    startAutoClaimSweeper(
+      new Connection(SOLANA_RPC_URL),
+      Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!)),
+      AUTO_CLAIM_INTERVAL_MS
+    );
+    console.error(`🧹 Auto-claim sweeper enabled (every ${AUTO_CLAIM_INTERVAL_MS / 1000}s)`);
+  }
+
+  if (CONDITIONAL_ORDER_POLL_MS > 0) {
+    startConditionalOrderWatcher(
+      new Connection(SOLANA_RPC_URL),
+      Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!)),
+      CONDITIONAL_ORDER_STORE,
+      CONDITIONAL_ORDER_POLL_MS,
+      POLICY,
+      DRY_RUN,
+      PAPER_TRADING ? PAPER_LEDGER : null
+    );
+    console.error(`🎯 Conditional bet watcher enabled (every ${CONDITIONAL_ORDER_POLL_MS / 1000}s)`);
+  }
+
+  if (DCA_POLL_MS > 0) {
+    startDcaRunner(
+      new Connection(SOLANA_RPC_URL),
+      Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY!)),
+      DCA_STORE,
+      DCA_POLL_MS,
+      POLICY,
+      DRY_RUN,
+      PAPER_TRADING ? PAPER_LEDGER : null
+    );
+    console.error(`📆 DCA runner enabled (every ${DCA_POLL_MS / 1000}s)`);
+  }
+
+  if (INDEXER_POLL_MS > 0) {
+    startEventIndexer(new Connection(SOLANA_RPC_URL), EVENT_INDEX_DIR, INDEXER_POLL_MS);
+    console.error(`📇 Event indexer enabled (every ${INDEXER_POLL_MS / 1000}s, ${EVENT_INDEX_DIR})`);
+  }
   console.error('');
 }
 
@@ -0,0 +1,490 @@
+/**
+ * Event Indexer
+ *
+ * Walks the betting program's transaction history with
+ * getSignaturesForAddress, decodes the Anchor events in each transaction's
+ * logs and appends them to a local event log, so history can be queried
+ * without the backend API.
+ *
+ * The index lives in one directory: events.jsonl (one event per line) and
+ * checkpoint.json. The event log is loaded once per process into a
+ * deduplicated in-memory index by market and wallet, which syncs keep up to
+ * date, so queries do not re-read the file.
+ *
+ * A sync first catches up from the chain head back to the newest indexed
+ * signature, then continues the backfill from the oldest indexed signature
+ * towards the program's first transaction, both within the sync's page
+ * budget. The cursors are saved after every transaction, so an interrupted
+ * sync resumes where it stopped. A transaction the RPC node fails to return
+ * ends the sync before it and is retried by the next sync, until it has been
+ * missing MAX_TRANSACTION_ATTEMPTS times and is skipped.
+ */
+
+import { EventParser } from '@coral-xyz/anchor';
+import { ConfirmedSignatureInfo, Connection } from '@solana/web3.js';
+import { join } from 'path';
+import { Currency } from './amounts.js';
+import { BETTING_PROGRAM_ID, toCurrencyType, toPlainObject } from './betting.js';
+import { getReadOnlyProgram } from './chain.js';
+import { appendJsonLines, readJsonFile, readJsonLines, writeJsonFile } from './storage.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type IndexedEventName =
+  | 'betPlaced'
+  | 'marketCreated'
+  | 'marketResolved'
+  | 'winningsClaimed'
+  | 'feesDistributed'
+  | 'marketNeedsRefund';
+
+export interface IndexedEvent {
+  signature: string;
+  slot: number;
+  /** Unix seconds, null if the RPC node did not report a block time */
+  blockTime: number | null;
+  /** Position of the event within its transaction */
+  index: number;
+  name: IndexedEventName;
+  /** Event fields as plain JSON (camelCase, amounts as strings, currencyType as "SOL" / "USDC") */
+  data: Record<string, any>;
+}
+
+/** Market details gathered from a market's indexed events */
+export interface IndexedMarket {
+  marketId: string | null;
+  /** From the MarketCreated event, null if it is not indexed yet */
+  title: string | null;
+  currencyType: Currency | null;
+}
+
+export interface IndexCheckpoint {
+  /** Newest signature indexed, the catch-up stops here */
+  newestSignature: string | null;
+  /** Oldest signature indexed, the backfill continues before it */
+  oldestSignature: string | null;
+  backfillComplete: boolean;
+  /**
+   * Catch-up in progress: walks back from head to until, continuing before
+   * `before`; newestSignature becomes head once it reaches until
+   */
+  catchUp: { head: string; until: string; before: string | null } | null;
+  /** Syncs that stopped at each signature whose transaction the RPC node did not return */
+  missingAttempts: Record<string, number>;
+  /** Signatures skipped after MAX_TRANSACTION_ATTEMPTS syncs without their transaction */
+  skippedSignatures: string[];
+  transactions: number;
+  events: number;
+  updatedAt: string | null;
+}
+
+export interface SyncReport {
+  transactions: number;
+  events: number;
+  /** Events per name added by this sync */
+  byName: Partial<Record<IndexedEventName, number>>;
+  /** False if the page budget ran out before the index was complete */
+  upToDate: boolean;
+  checkpoint: IndexCheckpoint;
+}
+
+export interface EventFilter {
+  names?: IndexedEventName[];
+  marketAddress?: string;
+  /** Matches the user of bets and claims and the creator of markets */
+  wallet?: string;
+  /** Unix seconds, inclusive */
+  since?: number;
+  /** Unix seconds, exclusive */
+  until?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const INDEXED_EVENTS: IndexedEventName[] = [
+  'betPlaced',
+  'marketCreated',
+  'marketResolved',
+  'winningsClaimed',
+  'feesDistributed',
+  'marketNeedsRefund',
+];
+
+/** Signatures per getSignaturesForAddress call (RPC maximum is 1000) */
+const SIGNATURE_PAGE_SIZE = 100;
+
+/** Transactions per getTransactions batch */
+const TRANSACTION_BATCH_SIZE = 20;
+
+/** Syncs that may stop at a transaction the RPC node does not return before it is skipped */
+const MAX_TRANSACTION_ATTEMPTS = 3;
+
+const EMPTY_CHECKPOINT: IndexCheckpoint = {
+  newestSignature: null,
+  oldestSignature: null,
+  backfillComplete: false,
+  catchUp: null,
+  missingAttempts: {},
+  skippedSignatures: [],
+  transactions: 0,
+  events: 0,
+  updatedAt: null,
+};
+
+// ============================================================================
+// Store
+// ============================================================================
+
+function eventsPath(indexDir: string): string {
+  return join(indexDir, 'events.jsonl');
+}
+
+function checkpointPath(indexDir: string): string {
+  return join(indexDir, 'checkpoint.json');
+}
+
+/**
+ * Read the sync checkpoint of an index
+ * @param indexDir - Directory holding the index
+ */
+export function readCheckpoint(indexDir: string): IndexCheckpoint {
+  return { ...EMPTY_CHECKPOINT, ...readJsonFile<Partial<IndexCheckpoint>>(checkpointPath(indexDir), {}) };
+}
+
+/**
+ * Events of one index directory, deduplicated and grouped for lookups.
+ * Lists touched since the last query are re-sorted before the next one.
+ */
+interface LoadedIndex {
+  events: IndexedEvent[];
+  keys: Set<string>;
+  byMarket: Map<string, IndexedEvent[]>;
+  byWallet: Map<string, IndexedEvent[]>;
+  markets: Map<string, IndexedMarket>;
+  unsorted: Set<IndexedEvent[]>;
+}
+
+/** Loaded indexes per index directory */
+const loadedIndexes = new Map<string, LoadedIndex>();
+
+function compareEvents(a: IndexedEvent, b: IndexedEvent): number {
+  return a.slot - b.slot || (a.blockTime ?? 0) - (b.blockTime ?? 0) || a.index - b.index;
+}
+
+/**
+ * Add events to a loaded index, skipping ones already in it
+ *
+ * The event log can hold an event twice, since a sync interrupted between
+ * appending a transaction's events and saving the checkpoint indexes that
+ * transaction again.
+ */
+function addEvents(index: LoadedIndex, events: IndexedEvent[]): void {
+  const addTo = (groups: Map<string, IndexedEvent[]>, key: string | undefined, event: IndexedEvent) => {
+    if (!key) return;
+    const list = groups.get(key) ?? [];
+    if (list.length === 0) groups.set(key, list);
+    list.push(event);
+    index.unsorted.add(list);
+  };
+
+  for (const event of events) {
+    const key = `${event.signature}:${event.index}`;
+    if (index.keys.has(key)) continue;
+    index.keys.add(key);
+
+    index.events.push(event);
+    index.unsorted.add(index.events);
+    addTo(index.byMarket, event.data.marketAddress, event);
+    if (event.data.marketAddress) {
+      const market = index.markets.get(event.data.marketAddress) ?? { marketId: null, title: null, currencyType: null };
+      if (event.name === 'marketCreated') market.title = event.data.title;
+      if (event.data.currencyType) market.currencyType = event.data.currencyType;
+      market.marketId ??= event.data.marketId ?? null;
+      index.markets.set(event.data.marketAddress, market);
+    }
+    addTo(index.byWallet, event.data.user, event);
+    if (event.data.creator !== event.data.user) addTo(index.byWallet, event.data.creator, event);
+  }
+}
+
+/**
+ * The in-memory index of a directory, read from its event log on first use
+ */
+function loadIndex(indexDir: string): LoadedIndex {
+  let index = loadedIndexes.get(indexDir);
+  if (!index) {
+    index = {
+      events: [],
+      keys: new Set(),
+      byMarket: new Map(),
+      byWallet: new Map(),
+      markets: new Map(),
+      unsorted: new Set(),
+    };
+    addEvents(index, readJsonLines<IndexedEvent>(eventsPath(indexDir)));
+    loadedIndexes.set(indexDir, index);
+  }
+
+  for (const list of index.unsorted) list.sort(compareEvents);
+  index.unsorted.clear();
+  return index;
+}
+
+/**
+ * Read indexed events in chronological order
+ *
+ * @param indexDir - Directory holding the index
+ * @param filter - Optional event names, market, wallet and time range
+ */
+export function readIndexedEvents(indexDir: string, filter: EventFilter = {}): IndexedEvent[] {
+  const index = loadIndex(indexDir);
+  const candidates = filter.marketAddress
+    ? index.byMarket.get(filter.marketAddress) ?? []
+    : filter.wallet
+      ? index.byWallet.get(filter.wallet) ?? []
+      : index.events;
+
+  return candidates.filter((event) => {
+    if (filter.names && !filter.names.includes(event.name)) return false;
+    if (filter.marketAddress && event.data.marketAddress !== filter.marketAddress) return false;
+    if (filter.wallet && event.data.user !== filter.wallet && event.data.creator !== filter.wallet) return false;
+    if (filter.since !== undefined && (event.blockTime ?? 0) < filter.since) return false;
+    if (filter.until !== undefined && (event.blockTime ?? 0) >= filter.until) return false;
+    return true;
+  });
+}
+
+/**
+ * Market details gathered from the indexed events of one market
+ *
+ * @param indexDir - Directory holding the index
+ * @param marketAddress - Market address
+ * @returns The details, or null if no event of the market is indexed
+ */
+export function getIndexedMarket(indexDir: string, marketAddress: string): IndexedMarket | null {
+  return loadIndex(indexDir).markets.get(marketAddress) ?? null;
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Fetch and decode the indexed events of a batch of successful transactions
+ *
+ * Transactions the RPC node did not return are left out of the result, so the
+ * caller can tell them apart from transactions without events.
+ */
+async function decodeTransactions(
+  connection: Connection,
+  parser: EventParser,
+  signatures: ConfirmedSignatureInfo[]
+): Promise<Map<string, IndexedEvent[]>> {
+  const decoded = new Map<string, IndexedEvent[]>();
+
+  for (let i = 0; i < signatures.length; i += TRANSACTION_BATCH_SIZE) {
+    const batch = signatures.slice(i, i + TRANSACTION_BATCH_SIZE);
+    const transactions = await connection.getTransactions(
+      batch.map((s) => s.signature),
+      { commitment: 'confirmed', maxSupportedTransactionVersion: 0 }
+    );
+
+    for (const [j, tx] of transactions.entries()) {
+      if (!tx) continue;
+      const info = batch[j];
+      const events: IndexedEvent[] = [];
+
+      for (const [index, event] of Array.from(parser.parseLogs(tx.meta?.logMessages ?? [])).entries()) {
+        if (!INDEXED_EVENTS.includes(event.name as IndexedEventName)) continue;
+
+        const data = toPlainObject(event.data);
+        if (data.currencyType) data.currencyType = toCurrencyType(event.data.currencyType);
+        events.push({
+          signature: info.signature,
+          slot: info.slot,
+          blockTime: info.blockTime ?? tx.blockTime ?? null,
+          index,
+          name: event.name as IndexedEventName,
+          data,
+        });
+      }
+      decoded.set(info.signature, events);
+    }
+  }
+
+  return decoded;
+}
+
+/**
+ * Run one sync: catch up to the chain head, then continue the backfill
+ */
+async function runSync(connection: Connection, indexDir: string, maxPages: number): Promise<SyncReport> {
+  const program = getReadOnlyProgram(connection);
+  const parser = new EventParser(program.programId, program.coder);
+  let checkpoint = readCheckpoint(indexDir);
+  const report: SyncReport = { transactions: 0, events: 0, byName: {}, upToDate: false, checkpoint };
+  let budget = maxPages * SIGNATURE_PAGE_SIZE;
+
+  const save = (changes: Partial<IndexCheckpoint>) => {
+    checkpoint = { ...checkpoint, ...changes, updatedAt: new Date().toISOString() };
+    writeJsonFile(checkpointPath(indexDir), checkpoint);
+  };
+
+  // Indexes a page of signatures, newest first, moving the walk's cursor
+  // after each one. Stops at a successful transaction the RPC node did not
+  // return, without moving the cursor past it, so the next sync fetches it
+  // again; after MAX_TRANSACTION_ATTEMPTS syncs it is skipped. Returns false
+  // if it stopped early.
+  const index = async (
+    signatures: ConfirmedSignatureInfo[],
+    advance: (signature: string) => Partial<IndexCheckpoint>
+  ) => {
+    const decoded = await decodeTransactions(connection, parser, signatures.filter((s) => s.err === null));
+    budget -= signatures.length;
+
+    for (const info of signatures) {
+      const { [info.signature]: attempts = 0, ...missingAttempts } = checkpoint.missingAttempts;
+      let skippedSignatures = checkpoint.skippedSignatures;
+
+      if (info.err === null && !decoded.has(info.signature)) {
+        if (attempts + 1 < MAX_TRANSACTION_ATTEMPTS) {
+          save({ missingAttempts: { ...missingAttempts, [info.signature]: attempts + 1 } });
+          return false;
+        }
+        console.error(`⚠️  Skipping transaction ${info.signature}: the RPC node did not return it in ${attempts + 1} syncs`);
+        skippedSignatures = [...skippedSignatures, info.signature];
+      }
+
+      const events = decoded.get(info.signature) ?? [];
+      appendJsonLines(eventsPath(indexDir), events);
+      const loaded = loadedIndexes.get(indexDir);
+      if (loaded) addEvents(loaded, events);
+
+      save({
+        newestSignature: checkpoint.newestSignature ?? info.signature,
+        ...advance(info.signature),
+        missingAttempts,
+        skippedSignatures,
+        transactions: checkpoint.transactions + 1,
+        events: checkpoint.events + events.length,
+      });
+
+      report.transactions++;
+      report.events += events.length;
+      for (const event of events) report.byName[event.name] = (report.byName[event.name] ?? 0) + 1;
+    }
+    return true;
+  };
+
+  // Catch up: walk back from the chain head to the newest indexed signature.
+  // The head is pinned when the walk starts, so a walk cut short by the budget
+  // resumes from its cursor, and transactions newer than the head are picked
+  // up by the walk after it.
+  let caughtUp = checkpoint.newestSignature === null;
+  let stalled = false;
+  while (!caughtUp && !stalled && budget > 0) {
+    const limit = Math.min(SIGNATURE_PAGE_SIZE, budget);
+    const page = await connection.getSignaturesForAddress(BETTING_PROGRAM_ID, {
+      until: checkpoint.catchUp?.until ?? checkpoint.newestSignature!,
+      before: checkpoint.catchUp?.before ?? undefined,
+      limit,
+    });
+
+    // Pin the head, again if an earlier walk indexed nothing before stopping
+    if (!checkpoint.catchUp?.before) {
+      if (page.length === 0) {
+        if (checkpoint.catchUp) save({ catchUp: null });
+        caughtUp = true;
+        break;
+      }
+      save({ catchUp: { head: page[0].signature, until: checkpoint.newestSignature!, before: null } });
+    }
+
+    stalled = !(await index(page, (signature) => ({ catchUp: { ...checkpoint.catchUp!, before: signature } })));
+
+    if (!stalled && page.length < limit) {
+      save({ newestSignature: checkpoint.catchUp!.head, catchUp: null });
+      caughtUp = true;
+    }
+  }
+
+  // Backfill: walk from the oldest indexed signature towards the first transaction
+  while (!checkpoint.backfillComplete && !stalled && budget > 0) {
+    const limit = Math.min(SIGNATURE_PAGE_SIZE, budget);
+    const page = await connection.getSignaturesForAddress(BETTING_PROGRAM_ID, {
+      before: checkpoint.oldestSignature ?? undefined,
+      limit,
+    });
+    stalled = !(await index(page, (signature) => ({ oldestSignature: signature })));
+
+    if (!stalled && page.length < limit) {
+      save({ backfillComplete: true });
+    }
+  }
+
+  return { ...report, upToDate: caughtUp && checkpoint.backfillComplete, checkpoint };
+}
+
+/** Sync in progress per index directory, shared by concurrent callers */
+const inFlight = new Map<string, Promise<SyncReport>>();
+
+/**
+ * Index new and historical program transactions
+ *
+ * A call while a sync of the same index is running waits for that sync
+ * instead of starting another one.
+ *
+ * @param connection - Solana connection
+ * @param indexDir - Directory holding the index
+ * @param maxPages - Signature pages (of 100) to walk at most
+ * @returns Counts of indexed transactions and events and the new checkpoint
+ */
+export function syncEventIndex(
+  connection: Connection,
+  indexDir: string,
+  maxPages: number = 10
+): Promise<SyncReport> {
+  const running = inFlight.get(indexDir);
+  if (running) return running;
+
+  const sync = runSync(connection, indexDir, maxPages).finally(() => inFlight.delete(indexDir));
+  inFlight.set(indexDir, sync);
+  return sync;
+}
+
+/**
+ * Start a background loop that keeps the index in sync
+ *
+ * @param connection - Solana connection
+ * @param indexDir - Directory holding the index
+ * @param intervalMs - Delay between syncs in milliseconds
+ * @param maxPages - Signature pages to walk per sync
+ * @returns Function that stops the loop
+ */
+export function startEventIndexer(
+  connection: Connection,
+  indexDir: string,
+  intervalMs: number,
+  maxPages: number = 10
+): () => void {
+  const sync = async () => {
+    try {
+      const report = await syncEventIndex(connection, indexDir, maxPages);
+      if (report.events > 0) {
+        console.error(`📇 Indexed ${report.events} events from ${report.transactions} transactions`);
+      }
+    } catch (error) {
+      console.error('⚠️  Event index sync failed:', error);
+    }
+  };
+
+  sync();
+  const timer = setInterval(sync, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,419 @@
+/**
+ * Conditional Bets
+ *
+ * Persistent limit-style orders ("bet 5 USDC on YES if YES drops below 30%")
+ * and a polling loop that watches the Market accounts and places each order
+ * through the normal betting path once its odds condition is met. Orders
+ * expire at their deadline or when betting ends, whichever comes first.
+ */
+
+import { randomBytes } from 'crypto';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { formatAmount, parseAmount } from './amounts.js';
+import {
+  SubmittedTransaction,
+  findTransactionEvent,
+  getSubmissionStatus,
+  getSubmittedTransaction,
+  throwIfSimulationFailed,
+  toCurrencyType,
+} from './betting.js';
+import { fetchMarketAccount, getReadOnlyProgram } from './chain.js';
+import { BettingError, createInvalidInputError, createProgramError, decodeError } from './errors.js';
+import { placePaperBet } from './paper.js';
+import { impliedOdds } from './parimutuel.js';
+import { PolicyConfig, placeBetWithPolicy } from './policy.js';
+import { readJsonFile, writeJsonFile } from './storage.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'expired' | 'failed';
+
+export interface ConditionalOrder {
+  id: string;
+  status: OrderStatus;
+  marketAddress: string;
+  marketId: number;
+  title: string;
+  currencyType: 'SOL' | 'USDC';
+  betYes: boolean;
+  /** Stake in smallest units */
+  amount: string;
+  /** Fire when the implied probability of the bet side is below / above the threshold */
+  condition: 'below' | 'above';
+  threshold: number;
+  category: string | null;
+  expiresAt: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Implied probability of the bet side when the order fired */
+  triggeredAt: { time: string; probability: number } | null;
+  signature: string | null;
+  event: Record<string, any> | null;
+  dryRun: boolean;
+  /** Paper ledger bet that filled the order in paper-trading mode */
+  paperBetId?: string | null;
+  lastError: ReturnType<BettingError['toJSON']> | null;
+  /** Transaction of a failed attempt that may still have landed, checked before the order fires again */
+  submitted?: SubmittedTransaction | null;
+}
+
+export interface ConditionalOrderRequest {
+  marketAddress: string;
+  amount: string;
+  betYes: boolean;
+  condition: 'below' | 'above';
+  threshold: number;
+  /** Optional deadline (unix seconds); capped at betting_ends */
+  expiresAt?: number;
+  category?: string;
+}
+
+type Store = Record<string, ConditionalOrder>;
+
+// ============================================================================
+// Store
+// ============================================================================
+
+function readOrders(storePath: string): Store {
+  return readJsonFile<Store>(storePath, {});
+}
+
+function saveOrder(storePath: string, order: ConditionalOrder): ConditionalOrder {
+  const store = readOrders(storePath);
+  const saved = { ...order, updatedAt: new Date().toISOString() };
+  store[order.id] = saved;
+  writeJsonFile(storePath, store);
+  return saved;
+}
+
+/**
+ * Create a conditional order after validating the market
+ *
+ * @param connection - Solana connection
+ * @param storePath - JSON file holding the orders
+ * @param request - Market, stake, side, trigger and optional deadline
+ * @returns The stored order
+ */
+export async function createConditionalOrder(
+  connection: Connection,
+  storePath: string,
+  request: ConditionalOrderRequest
+): Promise<ConditionalOrder> {
+  if (!(request.threshold > 0 && request.threshold < 1)) {
+    throw createInvalidInputError(`Threshold must be a probability between 0 and 1, got ${request.threshold}`);
+  }
+
+  const { address, account: market } = await fetchMarketAccount(connection, request.marketAddress);
+  const currency = toCurrencyType(market.currencyType);
+  const bettingEnds = market.bettingEnds.toNumber();
+  const now = Math.floor(Date.now() / 1000);
+
+  if (market.isResolved) {
+    throw createProgramError('MarketAlreadyResolved');
+  }
+  if (now >= bettingEnds) {
+    throw createProgramError('BettingEnded');
+  }
+  if (request.expiresAt !== undefined && request.expiresAt <= now) {
+    throw createInvalidInputError(`expiresAt ${request.expiresAt} is in the past`);
+  }
+
+  const createdAt = new Date().toISOString();
+  const order: ConditionalOrder = {
+    id: randomBytes(8).toString('hex'),
+    status: 'open',
+    marketAddress: address.toString(),
+    marketId: market.id.toNumber(),
+    title: market.title,
+    currencyType: currency,
+    betYes: request.betYes,
+    amount: parseAmount(request.amount, currency).toString(),
+    condition: request.condition,
+    threshold: request.threshold,
+    category: request.category ?? null,
+    expiresAt: new Date(Math.min(request.expiresAt ?? bettingEnds, bettingEnds) * 1000).toISOString(),
+    createdAt,
+    updatedAt: createdAt,
+    triggeredAt: null,
+    signature: null,
+    event: null,
+    dryRun: false,
+    paperBetId: null,
+    lastError: null,
+    submitted: null,
+  };
+
+  return saveOrder(storePath, order);
+}
+
+/**
+ * List conditional orders, newest first
+ *
+ * @param storePath - JSON file holding the orders
+ * @param status - Optional status filter
+ */
+export function listConditionalOrders(storePath: string, status?: OrderStatus): ConditionalOrder[] {
+  return Object.values(readOrders(storePath))
+    .filter((order) => !status || order.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Cancel an open conditional order
+ *
+ * @param storePath - JSON file holding the orders
+ * @param id - Order ID
+ */
+export function cancelConditionalOrder(storePath: string, id: string): ConditionalOrder {
+  const order = readOrders(storePath)[id];
+  if (!order) {
+    throw createInvalidInputError(`Conditional order ${id} not found`);
+  }
+  if (order.status !== 'open') {
+    throw createInvalidInputError(`Conditional order ${id} is already ${order.status}`);
+  }
+
+  return saveOrder(storePath, { ...order, status: 'cancelled' });
+}
+
+/**
+ * Format an order for tool output
+ */
+export function describeOrder(order: ConditionalOrder): string {
+  return `${formatAmount(order.amount, order.currencyType)} ${order.currencyType} on ` +
+    `${order.betYes ? 'YES' : 'NO'} when ${order.betYes ? 'YES' : 'NO'} is ${order.condition} ` +
+    `${(order.threshold * 100).toFixed(1)}% in "${order.title}"`;
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Settle an order whose last attempt sent a transaction without confirming
+ * it: filled if it landed, failed if it failed on chain, and unchanged apart
+ * from the cleared transaction once it can no longer land
+ *
+ * @returns The saved order, or null while the transaction may still land
+ */
+async function resolveSubmission(
+  connection: Connection,
+  storePath: string,
+  order: ConditionalOrder
+): Promise<ConditionalOrder | null> {
+  const submitted = order.submitted!;
+  const { status, error } = await getSubmissionStatus(connection, submitted);
+
+  switch (status) {
+    case 'pending':
+      return null;
+    case 'landed': {
+      console.error(`✅ Conditional order ${order.id}: earlier transaction ${submitted.signature} landed`);
+      const event = await findTransactionEvent(connection, getReadOnlyProgram(connection), submitted.signature, 'betPlaced');
+      return saveOrder(storePath, {
+        ...order,
+        status: 'filled',
+        signature: submitted.signature,
+        event,
+        dryRun: false,
+        lastError: null,
+        submitted: null,
+      });
+    }
+    case 'failed':
+      return saveOrder(storePath, { ...order, status: 'failed', lastError: error!.toJSON(), submitted: null });
+    case 'dropped':
+      return saveOrder(storePath, { ...order, submitted: null });
+  }
+}
+
+/**
+ * Check every open order once: expire stale ones and place those whose
+ * condition is met
+ *
+ * Orders are placed sequentially. Retryable errors (RPC, expired blockhash)
+ * leave the order open for the next check; other errors mark it failed. If
+ * the failed attempt had already sent its transaction, the order does not
+ * fire again until that transaction is known to have been dropped; if it
+ * landed after all, the order is marked filled.
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the bettor
+ * @param storePath - JSON file holding the orders
+ * @param policy - Spending policy to evaluate, if one is loaded
+ * @param dryRun - Simulate triggered bets instead of submitting them
+ * @param paperLedgerPath - Record triggered bets in this paper ledger instead (paper trading)
+ * @returns Orders whose status changed
+ */
+export async function checkConditionalOrders(
+  connection: Connection,
+  wallet: Keypair,
+  storePath: string,
+  policy: PolicyConfig | null = null,
+  dryRun: boolean = false,
+  paperLedgerPath: string | null = null
+): Promise<ConditionalOrder[]> {
+  const orders = Object.values(readOrders(storePath)).filter((o) => o.status === 'open' || o.submitted);
+  if (orders.length === 0) return [];
+
+  const program = getReadOnlyProgram(connection);
+  const markets = await (program.account as any).market.fetchMultiple(
+    orders.map((order) => new PublicKey(order.marketAddress))
+  );
+  const now = Date.now();
+  const changed: ConditionalOrder[] = [];
+
+  for (const [i, listed] of orders.entries()) {
+    const market = markets[i];
+    // Re-read: the order may have been cancelled while earlier orders were being placed
+    let order = readOrders(storePath)[listed.id] ?? listed;
+
+    if (order.submitted) {
+      try {
+        const resolved = await resolveSubmission(connection, storePath, order);
+        if (!resolved) continue;
+        changed.push(resolved);
+        order = resolved;
+      } catch (error) {
+        console.error(`⚠️  Could not check the transaction of conditional order ${order.id}:`, decodeError(error).message);
+        continue;
+      }
+    }
+    if (order.status !== 'open') continue;
+
+    if (!market || market.isResolved || now >= Date.parse(order.expiresAt)) {
+      changed.push(saveOrder(storePath, { ...order, status: 'expired' }));
+      continue;
+    }
+
+    const odds = impliedOdds({
+      yesPool: BigInt(market.yesPool.toString()),
+      noPool: BigInt(market.noPool.toString()),
+    });
+    const probability = order.betYes ? odds.yesProbability : odds.noProbability;
+    const triggered = order.condition === 'below'
+      ? probability < order.threshold
+      : probability > order.threshold;
+    if (!triggered) continue;
+
+    console.error(`\n🎯 CONDITIONAL ORDER TRIGGERED`);
+    console.error(`${'='.repeat(60)}`);
+    console.error(`   Order: ${order.id}`);
+    console.error(`   ${describeOrder(order)}`);
+    console.error(`   Current: ${(probability * 100).toFixed(1)}%`);
+    console.error(`${'='.repeat(60)}\n`);
+
+    const triggeredAt = { time: new Date(now).toISOString(), probability };
+
+    try {
+      let fill: Pick<ConditionalOrder, 'signature' | 'event' | 'dryRun' | 'paperBetId'>;
+
+      if (paperLedgerPath) {
+        const { bet } = await placePaperBet(
+          connection,
+          paperLedgerPath,
+          {
+            marketAddress: order.marketAddress,
+            marketId: order.marketId,
+            amount: order.amount,
+            betYes: order.betYes,
+            currencyType: order.currencyType,
+            category: order.category ?? undefined,
+          },
+          policy
+        );
+        fill = { signature: null, event: null, dryRun: true, paperBetId: bet.id };
+      } else {
+        const result = await placeBetWithPolicy(
+          connection,
+          wallet,
+          policy,
+          {
+            marketAddress: order.marketAddress,
+            marketId: order.marketId,
+            currencyType: order.currencyType,
+            amount: order.amount,
+            betYes: order.betYes,
+            category: order.category ?? undefined,
+          },
+          dryRun
+        );
+        if (result.simulation) throwIfSimulationFailed(result.simulation);
+        fill = {
+          signature: result.signature,
+          event: result.event,
+          dryRun: result.simulation !== undefined,
+          paperBetId: null,
+        };
+      }
+
+      changed.push(saveOrder(storePath, {
+        ...order,
+        status: 'filled',
+        triggeredAt,
+        ...fill,
+        lastError: null,
+      }));
+    } catch (error) {
+      const bettingError = decodeError(error);
+      console.error(`❌ Conditional order ${order.id} failed:`, bettingError.message);
+
+      // Keep a cancellation made while the bet was being placed
+      const cancelled = readOrders(storePath)[order.id]?.status === 'cancelled';
+      changed.push(saveOrder(storePath, {
+        ...order,
+        status: cancelled ? 'cancelled' : bettingError.retryable ? 'open' : 'failed',
+        triggeredAt,
+        lastError: bettingError.toJSON(),
+        submitted: getSubmittedTransaction(bettingError),
+      }));
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Start a background loop that checks conditional orders
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the bettor
+ * @param storePath - JSON file holding the orders
+ * @param intervalMs - Delay between checks in milliseconds
+ * @param policy - Spending policy to evaluate, if one is loaded
+ * @param dryRun - Simulate triggered bets instead of submitting them
+ * @param paperLedgerPath - Record triggered bets in this paper ledger instead (paper trading)
+ * @returns Function that stops the loop
+ */
+export function startConditionalOrderWatcher(
+  connection: Connection,
+  wallet: Keypair,
+  storePath: string,
+  intervalMs: number,
+  policy: PolicyConfig | null = null,
+  dryRun: boolean = false,
+  paperLedgerPath: string | null = null
+): () => void {
+  let running = false;
+
+  const check = async () => {
+    // Skip this tick if the previous check is still placing bets
+    if (running) return;
+    running = true;
+    try {
+      await checkConditionalOrders(connection, wallet, storePath, policy, dryRun, paperLedgerPath);
+    } catch (error) {
+      console.error('⚠️  Conditional order check failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(check, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
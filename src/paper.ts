@@ -0,0 +1,489 @@
+/**
+ * Paper Trading
+ *
+ * Simulated bets against live markets. A paper bet is priced with the same
+ * parimutuel math as a real one, against the current on-chain pools plus the
+ * ledger's own earlier paper stakes, and is recorded in a local ledger instead
+ * of being submitted. When a market resolves, its paper position is settled
+ * from the final pools the next time the ledger is read.
+ */
+
+import { randomBytes } from 'crypto';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Currency, formatAmount } from './amounts.js';
+import { MIN_BET_SOL, MIN_BET_USDC, toCurrencyType } from './betting.js';
+import { fetchMarketAccount, fetchProtocolAccount, getReadOnlyProgram } from './chain.js';
+import { createInvalidInputError, createProgramError } from './errors.js';
+import { Pools, calculateBetOutcome, impliedOdds, winningPayout } from './parimutuel.js';
+import { PolicyConfig, checkBet, spendWithPolicy } from './policy.js';
+import { readJsonFile, writeJsonFile } from './storage.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PaperBet {
+  id: string;
+  marketAddress: string;
+  marketId: number;
+  title: string;
+  currencyType: Currency;
+  betYes: boolean;
+  /** Gross stake in smallest units */
+  amount: string;
+  /** Creator plus protocol fee in smallest units */
+  fees: string;
+  /** Stake added to the pool in smallest units */
+  netAmount: string;
+  /** Implied probability of the bet side before and after the bet */
+  probabilityBefore: number;
+  probabilityAfter: number;
+  placedAt: string;
+}
+
+export interface PaperSettlement {
+  marketAddress: string;
+  /** Winning side, null if the market was refunded */
+  outcome: boolean | null;
+  refunded: boolean;
+  /** Payout in smallest units */
+  payout: string;
+  settledAt: string;
+}
+
+export interface PaperBetRequest {
+  marketAddress: string;
+  marketId: number;
+  /** Stake in smallest units */
+  amount: string;
+  betYes: boolean;
+  currencyType: Currency;
+  /** Market category, used by the spending policy */
+  category?: string;
+}
+
+interface PaperLedger {
+  bets: PaperBet[];
+  /** Settlements by market address */
+  settlements: Record<string, PaperSettlement>;
+}
+
+interface PaperPosition {
+  marketAddress: string;
+  marketId: number;
+  title: string;
+  currencyType: Currency;
+  yesAmount: bigint;
+  noAmount: bigint;
+  deposited: bigint;
+  fees: bigint;
+  bets: PaperBet[];
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+function readLedger(ledgerPath: string): PaperLedger {
+  return readJsonFile<PaperLedger>(ledgerPath, { bets: [], settlements: {} });
+}
+
+/**
+ * Group paper bets into one position per market
+ */
+function toPositions(bets: PaperBet[]): Map<string, PaperPosition> {
+  const positions = new Map<string, PaperPosition>();
+
+  for (const bet of bets) {
+    const position = positions.get(bet.marketAddress) ?? {
+      marketAddress: bet.marketAddress,
+      marketId: bet.marketId,
+      title: bet.title,
+      currencyType: bet.currencyType,
+      yesAmount: 0n,
+      noAmount: 0n,
+      deposited: 0n,
+      fees: 0n,
+      bets: [],
+    };
+
+    if (bet.betYes) position.yesAmount += BigInt(bet.netAmount);
+    else position.noAmount += BigInt(bet.netAmount);
+    position.deposited += BigInt(bet.amount);
+    position.fees += BigInt(bet.fees);
+    position.bets.push(bet);
+    positions.set(bet.marketAddress, position);
+  }
+
+  return positions;
+}
+
+/**
+ * On-chain pools with the paper position added, as if it had been placed
+ */
+function withPaperStake(market: any, position: PaperPosition | undefined): Pools {
+  return {
+    yesPool: BigInt(market.yesPool.toString()) + (position?.yesAmount ?? 0n),
+    noPool: BigInt(market.noPool.toString()) + (position?.noAmount ?? 0n),
+  };
+}
+
+// ============================================================================
+// Trading
+// ============================================================================
+
+/**
+ * Record a paper bet after validating it like the program would
+ *
+ * The spending policy is evaluated as for a real bet, so paper results show
+ * how a policy-limited strategy behaves; the policy should keep its own
+ * spend ledger in paper mode.
+ *
+ * @param connection - Solana connection
+ * @param ledgerPath - JSON file holding the paper ledger
+ * @param request - Market, stake in smallest units, side, currency and category
+ * @param policy - Spending policy to evaluate, if one is loaded
+ * @param dryRun - Validate and price the bet without recording it
+ * @returns The bet (recorded unless dryRun) and its priced outcome
+ */
+export async function placePaperBet(
+  connection: Connection,
+  ledgerPath: string,
+  request: PaperBetRequest,
+  policy: PolicyConfig | null = null,
+  dryRun: boolean = false
+) {
+  if (dryRun) {
+    if (policy) await checkBet(connection, policy, request);
+    return pricePaperBet(connection, ledgerPath, request, false);
+  }
+  if (!policy) return pricePaperBet(connection, ledgerPath, request, true);
+
+  return spendWithPolicy(connection, policy, request, async () => ({
+    result: await pricePaperBet(connection, ledgerPath, request, true),
+    signature: null,
+  }));
+}
+
+/**
+ * Validate and price a paper bet against the pools plus earlier paper stakes,
+ * appending it to the ledger if save is set
+ */
+async function pricePaperBet(connection: Connection, ledgerPath: string, request: PaperBetRequest, save: boolean) {
+  const { address, account: market } = await fetchMarketAccount(connection, request.marketAddress);
+  const currency = toCurrencyType(market.currencyType);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (market.id.toString() !== String(request.marketId)) {
+    throw createInvalidInputError(
+      `Market ${request.marketAddress} has ID ${market.id.toString()}, not ${request.marketId}`,
+      { marketAddress: request.marketAddress, marketId: request.marketId }
+    );
+  }
+  if (market.isResolved) {
+    throw createProgramError('MarketAlreadyResolved');
+  }
+  if (now >= market.bettingEnds.toNumber()) {
+    throw createProgramError('BettingEnded');
+  }
+  if (currency !== request.currencyType) {
+    throw createProgramError('WrongCurrencyType', `Market ${request.marketAddress} is a ${currency} market`);
+  }
+
+  const amount = BigInt(request.amount);
+  const minBet = BigInt((currency === 'SOL' ? MIN_BET_SOL : MIN_BET_USDC).toString());
+  if (amount < minBet) {
+    throw createProgramError('BetTooSmall');
+  }
+
+  const protocol = await fetchProtocolAccount(connection);
+  const ledger = readLedger(ledgerPath);
+  const position = toPositions(ledger.bets).get(address.toString());
+  const outcome = calculateBetOutcome(
+    withPaperStake(market, position),
+    { creatorFeeBps: protocol.creatorFeeBps, protocolFeeBps: protocol.protocolFeeBps },
+    amount,
+    request.betYes,
+    { yesAmount: position?.yesAmount ?? 0n, noAmount: position?.noAmount ?? 0n }
+  );
+  const side = (odds: { yesProbability: number; noProbability: number }) =>
+    request.betYes ? odds.yesProbability : odds.noProbability;
+
+  const bet: PaperBet = {
+    id: randomBytes(8).toString('hex'),
+    marketAddress: address.toString(),
+    marketId: market.id.toNumber(),
+    title: market.title,
+    currencyType: currency,
+    betYes: request.betYes,
+    amount: amount.toString(),
+    fees: outcome.totalFee.toString(),
+    netAmount: outcome.netAmount.toString(),
+    probabilityBefore: side(outcome.oddsBefore),
+    probabilityAfter: side(outcome.oddsAfter),
+    placedAt: new Date().toISOString(),
+  };
+
+  if (save) {
+    ledger.bets.push(bet);
+    writeJsonFile(ledgerPath, ledger);
+  }
+
+  return { bet, outcome };
+}
+
+/**
+ * Settle every unsettled paper position whose market has resolved
+ *
+ * The payout uses the final on-chain pools plus the paper stakes. A market
+ * resolved without an outcome, or whose winning pool is empty, refunds the
+ * net stakes.
+ *
+ * @param connection - Solana connection
+ * @param ledgerPath - JSON file holding the paper ledger
+ * @returns Settlements made by this call
+ */
+export async function settlePaperPositions(
+  connection: Connection,
+  ledgerPath: string
+): Promise<PaperSettlement[]> {
+  const ledger = readLedger(ledgerPath);
+  const open = [...toPositions(ledger.bets).values()].filter(
+    (position) => !ledger.settlements[position.marketAddress]
+  );
+  if (open.length === 0) return [];
+
+  const program = getReadOnlyProgram(connection);
+  const markets = await (program.account as any).market.fetchMultiple(
+    open.map((position) => new PublicKey(position.marketAddress))
+  );
+  const settled: PaperSettlement[] = [];
+
+  for (const [i, position] of open.entries()) {
+    const market = markets[i];
+    if (!market?.isResolved) continue;
+
+    const pools = withPaperStake(market, position);
+    const outcome: boolean | null = market.outcome ?? null;
+    const winningPool = outcome === null ? 0n : outcome ? pools.yesPool : pools.noPool;
+    const refunded = winningPool === 0n;
+    const payout = refunded
+      ? position.yesAmount + position.noAmount
+      : winningPayout(outcome ? position.yesAmount : position.noAmount, winningPool, pools.yesPool + pools.noPool);
+
+    const settlement: PaperSettlement = {
+      marketAddress: position.marketAddress,
+      outcome,
+      refunded,
+      payout: payout.toString(),
+      settledAt: new Date().toISOString(),
+    };
+    settled.push(settlement);
+
+    console.error(`📝 Paper position settled: "${position.title}" ` +
+      `${refunded ? 'refunded' : `resolved ${outcome ? 'YES' : 'NO'}`}, payout ` +
+      `${formatAmount(payout, position.currencyType)} ${position.currencyType}`);
+  }
+
+  if (settled.length === 0) return settled;
+
+  // Re-read, since paper bets may have been recorded while the markets were fetched
+  const current = readLedger(ledgerPath);
+  for (const settlement of settled) current.settlements[settlement.marketAddress] ??= settlement;
+  writeJsonFile(ledgerPath, current);
+  return settled;
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+/**
+ * Describe a paper position: stakes, settlement or current payouts and P&L
+ *
+ * Open positions are marked at the implied odds of the pools including the
+ * paper stake: value = P(YES) * payoutIfYes + P(NO) * payoutIfNo.
+ */
+function describePosition(position: PaperPosition, settlement: PaperSettlement | undefined, market: any) {
+  const currency = position.currencyType;
+  const base = {
+    marketAddress: position.marketAddress,
+    marketId: position.marketId,
+    title: position.title,
+    currencyType: currency,
+    yesAmount: formatAmount(position.yesAmount, currency),
+    noAmount: formatAmount(position.noAmount, currency),
+    deposited: formatAmount(position.deposited, currency),
+    feesPaid: formatAmount(position.fees, currency),
+    betCount: position.bets.length,
+  };
+
+  if (settlement) {
+    const profit = BigInt(settlement.payout) - position.deposited;
+    return {
+      ...base,
+      status: settlement.refunded ? 'refunded' : profit > 0n ? 'won' : 'lost',
+      outcome: settlement.outcome === null ? null : settlement.outcome ? 'YES' : 'NO',
+      payout: formatAmount(settlement.payout, currency),
+      profit: formatAmount(profit, currency),
+      settledAt: settlement.settledAt,
+      value: BigInt(settlement.payout),
+    };
+  }
+
+  if (!market) {
+    return {
+      ...base,
+      status: 'open',
+      currentOdds: null,
+      payoutIfYes: null,
+      payoutIfNo: null,
+      markValue: null,
+      unrealizedProfit: null,
+      value: null,
+    };
+  }
+
+  const pools = withPaperStake(market, position);
+  const total = pools.yesPool + pools.noPool;
+  const odds = impliedOdds(pools);
+  const payoutIfYes = winningPayout(position.yesAmount, pools.yesPool, total);
+  const payoutIfNo = winningPayout(position.noAmount, pools.noPool, total);
+  const value = BigInt(Math.floor(odds.yesProbability * Number(payoutIfYes) + odds.noProbability * Number(payoutIfNo)));
+
+  return {
+    ...base,
+    status: 'open',
+    currentOdds: odds,
+    payoutIfYes: formatAmount(payoutIfYes, currency),
+    payoutIfNo: formatAmount(payoutIfNo, currency),
+    markValue: formatAmount(value, currency),
+    unrealizedProfit: formatAmount(value - position.deposited, currency),
+    value,
+  };
+}
+
+/**
+ * Settle resolved markets, then describe every paper position
+ */
+async function readPositions(connection: Connection, ledgerPath: string) {
+  await settlePaperPositions(connection, ledgerPath);
+
+  const ledger = readLedger(ledgerPath);
+  const positions = [...toPositions(ledger.bets).values()];
+  const open = positions.filter((position) => !ledger.settlements[position.marketAddress]);
+  const program = getReadOnlyProgram(connection);
+  const markets: any[] = open.length > 0
+    ? await (program.account as any).market.fetchMultiple(open.map((p) => new PublicKey(p.marketAddress)))
+    : [];
+
+  return positions.map((position) => ({
+    position,
+    report: describePosition(
+      position,
+      ledger.settlements[position.marketAddress],
+      markets[open.indexOf(position)]
+    ),
+  }));
+}
+
+/**
+ * Get the paper position in one market
+ *
+ * @param connection - Solana connection
+ * @param ledgerPath - JSON file holding the paper ledger
+ * @param marketId - Numeric market ID or market address
+ */
+export async function getPaperPosition(connection: Connection, ledgerPath: string, marketId: string | number) {
+  const { address } = await fetchMarketAccount(connection, marketId);
+  const entry = (await readPositions(connection, ledgerPath)).find(
+    ({ position }) => position.marketAddress === address.toString()
+  );
+
+  if (!entry) {
+    return { marketAddress: address.toString(), hasPosition: false, position: null, source: 'paper' };
+  }
+
+  const { value, ...report } = entry.report;
+  return { hasPosition: true, position: report, bets: entry.position.bets, source: 'paper' };
+}
+
+/**
+ * Paper portfolio: every paper position, settled and open
+ *
+ * @param connection - Solana connection
+ * @param ledgerPath - JSON file holding the paper ledger
+ */
+export async function getPaperPortfolio(connection: Connection, ledgerPath: string) {
+  const entries = await readPositions(connection, ledgerPath);
+
+  return {
+    paperTrading: true,
+    totalPositions: entries.length,
+    openPositions: entries.filter(({ report }) => report.status === 'open').length,
+    positions: entries.map(({ report: { value, ...report } }) => report),
+    source: 'paper',
+  };
+}
+
+/**
+ * Paper trading performance per currency
+ *
+ * Realized P&L covers settled markets (payout minus deposits). Unrealized P&L
+ * marks open positions at the current implied odds. Hit rate counts won
+ * markets among won and lost ones; refunds are excluded.
+ *
+ * @param connection - Solana connection
+ * @param ledgerPath - JSON file holding the paper ledger
+ */
+export async function getPaperPerformance(connection: Connection, ledgerPath: string) {
+  const entries = await readPositions(connection, ledgerPath);
+
+  const summary = (currency: Currency) => {
+    const mine = entries.filter(({ position }) => position.currencyType === currency);
+    const settled = mine.filter(({ report }) => report.status !== 'open');
+    const open = mine.filter(({ report }) => report.status === 'open');
+    const won = settled.filter(({ report }) => report.status === 'won').length;
+    const lost = settled.filter(({ report }) => report.status === 'lost').length;
+
+    const total = (list: typeof mine, pick: (entry: (typeof mine)[number]) => bigint) =>
+      list.reduce((sum, entry) => sum + pick(entry), 0n);
+    const settledDeposited = total(settled, ({ position }) => position.deposited);
+    const openDeposited = total(open, ({ position }) => position.deposited);
+    // Open positions whose market could not be read are carried at cost
+    const realized = total(settled, ({ report }) => report.value ?? 0n) - settledDeposited;
+    const unrealized = total(open, ({ position, report }) => report.value ?? position.deposited) - openDeposited;
+
+    return {
+      markets: mine.length,
+      bets: mine.reduce((sum, { position }) => sum + position.bets.length, 0),
+      totalStaked: formatAmount(settledDeposited + openDeposited, currency),
+      feesPaid: formatAmount(total(mine, ({ position }) => position.fees), currency),
+      settledMarkets: settled.length,
+      won,
+      lost,
+      refunded: settled.length - won - lost,
+      hitRate: won + lost > 0 ? won / (won + lost) : null,
+      realizedProfit: formatAmount(realized, currency),
+      realizedRoi: settledDeposited > 0n ? Number(realized) / Number(settledDeposited) : null,
+      openMarkets: open.length,
+      openStaked: formatAmount(openDeposited, currency),
+      unrealizedProfit: formatAmount(unrealized, currency),
+    };
+  };
+
+  return {
+    paperTrading: true,
+    SOL: summary('SOL'),
+    USDC: summary('USDC'),
+    markets: entries.map(({ report }) => ({
+      marketId: report.marketId,
+      title: report.title,
+      currencyType: report.currencyType,
+      status: report.status,
+      deposited: report.deposited,
+      profit: 'profit' in report ? report.profit : report.unrealizedProfit,
+    })),
+    source: 'paper',
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Parimutuel Calculator
+ *
+ * Pure bigint reproduction of the Sol Bets V3 payout math, so bet outcomes
+ * can be computed locally from the Market and Protocol accounts:
+ *
+ * - fees are taken from the stake at bet time: amount * fee_bps / 10_000 (floored),
+ *   once for the creator and once for the protocol
+ * - the net amount is added to the chosen side's pool
+ * - a winning position is paid stake * total_pool / winning_pool (floored)
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Pools {
+  yesPool: bigint;
+  noPool: bigint;
+}
+
+export interface FeeRates {
+  creatorFeeBps: number;
+  protocolFeeBps: number;
+}
+
+export interface Position {
+  yesAmount: bigint;
+  noAmount: bigint;
+}
+
+export interface FeeBreakdown {
+  creatorFee: bigint;
+  protocolFee: bigint;
+  totalFee: bigint;
+  netAmount: bigint;
+}
+
+export interface ImpliedOdds {
+  yesProbability: number;
+  noProbability: number;
+}
+
+export interface BetOutcome extends FeeBreakdown {
+  amount: bigint;
+  betYes: boolean;
+  poolsBefore: Pools & { totalPool: bigint };
+  poolsAfter: Pools & { totalPool: bigint };
+  oddsBefore: ImpliedOdds;
+  oddsAfter: ImpliedOdds;
+  /** Change in the implied probability of the chosen side */
+  priceImpact: number;
+  /** Payout of this bet alone if its side wins */
+  betPayoutIfWins: bigint;
+  /** betPayoutIfWins minus the gross stake */
+  betProfitIfWins: bigint;
+  /** Payout of the whole position (existing + this bet) if YES wins */
+  payoutIfYes: bigint;
+  /** Payout of the whole position (existing + this bet) if NO wins */
+  payoutIfNo: bigint;
+}
+
+const BPS_DENOMINATOR = 10_000n;
+
+// ============================================================================
+// Calculations
+// ============================================================================
+
+/**
+ * Split a gross stake into creator fee, protocol fee and net amount
+ */
+export function calculateFees(amount: bigint, rates: FeeRates): FeeBreakdown {
+  const creatorFee = (amount * BigInt(rates.creatorFeeBps)) / BPS_DENOMINATOR;
+  const protocolFee = (amount * BigInt(rates.protocolFeeBps)) / BPS_DENOMINATOR;
+  const totalFee = creatorFee + protocolFee;
+
+  return { creatorFee, protocolFee, totalFee, netAmount: amount - totalFee };
+}
+
+/**
+ * Implied probabilities (side_pool / total_pool), 0.5 each for an empty market
+ */
+export function impliedOdds(pools: Pools): ImpliedOdds {
+  const total = pools.yesPool + pools.noPool;
+  if (total === 0n) return { yesProbability: 0.5, noProbability: 0.5 };
+
+  const yesProbability = Number(pools.yesPool) / Number(total);
+  return { yesProbability, noProbability: 1 - yesProbability };
+}
+
+/**
+ * Payout of a winning stake: stake * total_pool / winning_pool
+ */
+export function winningPayout(stake: bigint, winningPool: bigint, totalPool: bigint): bigint {
+  if (stake === 0n || winningPool === 0n) return 0n;
+  return (stake * totalPool) / winningPool;
+}
+
+/**
+ * Add a net amount to one side of the pools
+ */
+export function applyBet(pools: Pools, netAmount: bigint, betYes: boolean): Pools {
+  return betYes
+    ? { yesPool: pools.yesPool + netAmount, noPool: pools.noPool }
+    : { yesPool: pools.yesPool, noPool: pools.noPool + netAmount };
+}
+
+/**
+ * Compute the full outcome of a bet against the current pools
+ *
+ * @param pools - Pools before the bet (smallest units)
+ * @param rates - Creator and protocol fee in basis points
+ * @param amount - Gross stake (smallest units)
+ * @param betYes - Side of the bet
+ * @param position - Bettor's existing net stakes, included in payoutIfYes / payoutIfNo
+ */
+export function calculateBetOutcome(
+  pools: Pools,
+  rates: FeeRates,
+  amount: bigint,
+  betYes: boolean,
+  position: Position = { yesAmount: 0n, noAmount: 0n }
+): BetOutcome {
+  const fees = calculateFees(amount, rates);
+  const after = applyBet(pools, fees.netAmount, betYes);
+  const totalAfter = after.yesPool + after.noPool;
+
+  const oddsBefore = impliedOdds(pools);
+  const oddsAfter = impliedOdds(after);
+  const sideProbability = (odds: ImpliedOdds) => (betYes ? odds.yesProbability : odds.noProbability);
+
+  const betPayoutIfWins = winningPayout(
+    fees.netAmount,
+    betYes ? after.yesPool : after.noPool,
+    totalAfter
+  );
+  const yesStake = position.yesAmount + (betYes ? fees.netAmount : 0n);
+  const noStake = position.noAmount + (betYes ? 0n : fees.netAmount);
+
+  return {
+    amount,
+    betYes,
+    ...fees,
+    poolsBefore: { ...pools, totalPool: pools.yesPool + pools.noPool },
+    poolsAfter: { ...after, totalPool: totalAfter },
+    oddsBefore,
+    oddsAfter,
+    priceImpact: sideProbability(oddsAfter) - sideProbability(oddsBefore),
+    betPayoutIfWins,
+    betProfitIfWins: betPayoutIfWins - amount,
+    payoutIfYes: winningPayout(yesStake, after.yesPool, totalAfter),
+    payoutIfNo: winningPayout(noStake, after.noPool, totalAfter),
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * P&L Accounting
+ *
+ * Per-wallet profit and loss from the wallet's UserPosition accounts, their
+ * Market accounts and the indexed WinningsClaimed events:
+ *
+ * - fees paid: gross deposits minus the net stakes that reached the pools
+ * - realized: resolved markets, payout (claimed or still due) minus deposits
+ * - unrealized: open markets marked to the current implied odds,
+ *   P(YES) * payoutIfYes + P(NO) * payoutIfNo minus deposits
+ * - unclaimed: winnings and refunds of resolved markets not claimed yet
+ *
+ * SOL and USDC are accounted separately.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Currency, formatAmount } from './amounts.js';
+import { toCurrencyType } from './betting.js';
+import { getReadOnlyProgram } from './chain.js';
+import { createInvalidInputError } from './errors.js';
+import { IndexedEvent, readIndexedEvents } from './indexer.js';
+import { winningPayout } from './parimutuel.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PositionStatus = 'open' | 'won' | 'lost' | 'refund';
+
+export interface PositionPnl {
+  marketAddress: string;
+  marketId: string;
+  title: string;
+  currencyType: Currency;
+  status: PositionStatus;
+  claimed: boolean;
+  yesAmount: string;
+  noAmount: string;
+  deposited: string;
+  feesPaid: string;
+  /** Payout received (claimed) or due (unclaimed), null while open */
+  payout: string | null;
+  realizedPnl: string | null;
+  /** Mark-to-odds value of an open position */
+  markValue: string | null;
+  unrealizedPnl: string | null;
+  claimSignature: string | null;
+  claimedAt: string | null;
+}
+
+interface Totals {
+  positions: number;
+  open: number;
+  settled: number;
+  deposited: bigint;
+  feesPaid: bigint;
+  realizedPnl: bigint;
+  markValue: bigint;
+  unrealizedPnl: bigint;
+  claimedPayouts: bigint;
+  unclaimedWinnings: bigint;
+  pendingRefunds: bigint;
+}
+
+/** One decoded UserPosition account with its Market account */
+export interface PnlHolding {
+  marketAddress: string;
+  position: any;
+  market: any;
+}
+
+/** Offset of UserPosition.user: 8-byte discriminator + 32-byte market pubkey */
+const USER_POSITION_USER_OFFSET = 8 + 32;
+
+// ============================================================================
+// Accounting
+// ============================================================================
+
+function emptyTotals(): Totals {
+  return {
+    positions: 0,
+    open: 0,
+    settled: 0,
+    deposited: 0n,
+    feesPaid: 0n,
+    realizedPnl: 0n,
+    markValue: 0n,
+    unrealizedPnl: 0n,
+    claimedPayouts: 0n,
+    unclaimedWinnings: 0n,
+    pendingRefunds: 0n,
+  };
+}
+
+function formatTotals(totals: Totals, currency: Currency) {
+  return {
+    positions: totals.positions,
+    open: totals.open,
+    settled: totals.settled,
+    deposited: formatAmount(totals.deposited, currency),
+    feesPaid: formatAmount(totals.feesPaid, currency),
+    realizedPnl: formatAmount(totals.realizedPnl, currency),
+    markValue: formatAmount(totals.markValue, currency),
+    unrealizedPnl: formatAmount(totals.unrealizedPnl, currency),
+    totalPnl: formatAmount(totals.realizedPnl + totals.unrealizedPnl, currency),
+    claimedPayouts: formatAmount(totals.claimedPayouts, currency),
+    unclaimedWinnings: formatAmount(totals.unclaimedWinnings, currency),
+    pendingRefunds: formatAmount(totals.pendingRefunds, currency),
+  };
+}
+
+/**
+ * Account for a wallet's positions
+ *
+ * Realized P&L counts winnings as soon as the market resolves, claimed or
+ * not; the unclaimed part is also reported as unclaimedWinnings. Markets
+ * resolved without a winning side refund the net stakes, so their realized
+ * P&L is minus the fees.
+ *
+ * @param walletAddress - Wallet the positions belong to
+ * @param holdings - Decoded UserPosition accounts with their Market accounts
+ * @param claims - WinningsClaimed events of the wallet, for claim details
+ * @param includePositions - Include one line per position
+ * @returns Totals per currency and, optionally, one line per position
+ */
+export function buildPnlReport(
+  walletAddress: string,
+  holdings: PnlHolding[],
+  claims: IndexedEvent[] = [],
+  includePositions: boolean = true
+) {
+  const claimsByMarket = new Map(claims.map((event) => [event.data.marketAddress as string, event]));
+  const totals: Record<Currency, Totals> = { SOL: emptyTotals(), USDC: emptyTotals() };
+  const positions: PositionPnl[] = [];
+
+  for (const { marketAddress, position, market } of holdings) {
+    const currency = toCurrencyType(market.currencyType);
+    const total = totals[currency];
+    const format = (units: bigint) => formatAmount(units, currency);
+
+    const yesAmount = BigInt(position.yesAmount.toString());
+    const noAmount = BigInt(position.noAmount.toString());
+    const deposited = BigInt(position.totalDeposited.toString());
+    const fees = deposited - yesAmount - noAmount;
+    const yesPool = BigInt(market.yesPool.toString());
+    const noPool = BigInt(market.noPool.toString());
+    const claim = claimsByMarket.get(marketAddress);
+
+    total.positions++;
+    total.deposited += deposited;
+    total.feesPaid += fees;
+
+    const line: PositionPnl = {
+      marketAddress,
+      marketId: market.id.toString(),
+      title: market.title,
+      currencyType: currency,
+      status: 'open',
+      claimed: position.claimed,
+      yesAmount: format(yesAmount),
+      noAmount: format(noAmount),
+      deposited: format(deposited),
+      feesPaid: format(fees),
+      payout: null,
+      realizedPnl: null,
+      markValue: null,
+      unrealizedPnl: null,
+      claimSignature: claim?.signature ?? null,
+      claimedAt: claim?.blockTime ? new Date(claim.blockTime * 1000).toISOString() : null,
+    };
+
+    if (!market.isResolved) {
+      // P(side) = side_pool / total_pool, applied in bigint before dividing
+      const totalPool = yesPool + noPool;
+      const value = totalPool === 0n
+        ? 0n
+        : (yesPool * winningPayout(yesAmount, yesPool, totalPool) +
+           noPool * winningPayout(noAmount, noPool, totalPool)) / totalPool;
+
+      total.open++;
+      total.markValue += value;
+      total.unrealizedPnl += value - deposited;
+      positions.push({ ...line, markValue: format(value), unrealizedPnl: format(value - deposited) });
+      continue;
+    }
+
+    const outcome: boolean | null = market.outcome ?? null;
+    const winningPool = outcome === null ? 0n : outcome ? yesPool : noPool;
+    const refund = winningPool === 0n;
+    const heldWinningSide = (outcome ? yesAmount : noAmount) > 0n;
+    const due = refund
+      ? yesAmount + noAmount
+      : winningPayout(outcome ? yesAmount : noAmount, winningPool, yesPool + noPool);
+    const payout = position.claimed ? BigInt(position.payoutAmount.toString()) : due;
+
+    total.settled++;
+    total.realizedPnl += payout - deposited;
+    if (position.claimed) total.claimedPayouts += payout;
+    else if (refund) total.pendingRefunds += payout;
+    else total.unclaimedWinnings += payout;
+
+    positions.push({
+      ...line,
+      status: refund ? 'refund' : heldWinningSide ? 'won' : 'lost',
+      payout: format(payout),
+      realizedPnl: format(payout - deposited),
+    });
+  }
+
+  return {
+    walletAddress,
+    SOL: formatTotals(totals.SOL, 'SOL'),
+    USDC: formatTotals(totals.USDC, 'USDC'),
+    ...(includePositions ? { positions } : {}),
+  };
+}
+
+// ============================================================================
+// Chain
+// ============================================================================
+
+/**
+ * Build a P&L report for a wallet from its UserPosition accounts on chain
+ *
+ * @param connection - Solana connection
+ * @param walletAddress - Wallet to account for
+ * @param indexDir - Event index with WinningsClaimed events for claim details (optional)
+ * @param includePositions - Include one line per position
+ * @returns Totals per currency and, optionally, one line per position
+ */
+export async function getPnlReport(
+  connection: Connection,
+  walletAddress: string,
+  indexDir?: string,
+  includePositions: boolean = true
+) {
+  let user: PublicKey;
+  try {
+    user = new PublicKey(walletAddress);
+  } catch {
+    throw createInvalidInputError(`Invalid wallet address: ${walletAddress}`);
+  }
+
+  const program = getReadOnlyProgram(connection);
+  const userPositions = await (program.account as any).userPosition.all([
+    { memcmp: { offset: USER_POSITION_USER_OFFSET, bytes: user.toBase58() } },
+  ]);
+  const marketKeys: PublicKey[] = userPositions.map((p: any) => p.account.market);
+  const markets: any[] = marketKeys.length > 0
+    ? await (program.account as any).market.fetchMultiple(marketKeys)
+    : [];
+
+  const holdings: PnlHolding[] = [];
+  userPositions.forEach((entry: any, i: number) => {
+    if (markets[i]) {
+      holdings.push({ marketAddress: marketKeys[i].toString(), position: entry.account, market: markets[i] });
+    }
+  });
+  const claims = indexDir
+    ? readIndexedEvents(indexDir, { names: ['winningsClaimed'], wallet: walletAddress })
+    : [];
+
+  return {
+    ...buildPnlReport(walletAddress, holdings, claims, includePositions),
+    computedBy: 'client',
+    source: 'chain',
+  };
+}
+
@@ -0,0 +1,567 @@
+/**
+ * Spending Policy Engine
+ *
+ * Evaluates a declarative policy file before every bet and market creation:
+ * per-bet cap, daily cap per currency, max exposure per market and per
+ * category, allowed oracles and categories, and a blackout window before
+ * betting_ends. Spend is tracked in a local ledger of bets placed by this server.
+ * A bet whose submission failed after sending is counted until the chain
+ * shows its transaction dropped or failed.
+ */
+
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { join } from 'path';
+import { CURRENCY_DECIMALS, Currency, formatAmount, parseAmount } from './amounts.js';
+import {
+  BetResult,
+  SubmittedTransaction,
+  getSubmissionStatus,
+  getSubmittedTransaction,
+  placeBet,
+} from './betting.js';
+import { fetchMarketAccount, getReadOnlyProgram } from './chain.js';
+import { createInvalidInputError, createPolicyError, decodeError } from './errors.js';
+import { readJsonFile, writeJsonFile } from './storage.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Limits in decimal units of each currency (e.g. { "SOL": 0.5, "USDC": 25 }) */
+export type CurrencyLimits = Partial<Record<Currency, number | string>>;
+
+/**
+ * Policy file format. Every rule is optional; an omitted rule allows everything.
+ */
+export interface SpendingPolicy {
+  /** Largest single bet */
+  maxBetAmount?: CurrencyLimits;
+  /** Total staked per UTC day */
+  dailyLimit?: CurrencyLimits;
+  /** Total staked in one unresolved market */
+  maxMarketExposure?: CurrencyLimits;
+  /** Total staked across unresolved markets of one category */
+  maxCategoryExposure?: CurrencyLimits;
+  /** Oracle addresses a market must use to be bet on or created */
+  allowedOracles?: string[];
+  /** Categories a market must belong to to be bet on or created */
+  allowedCategories?: string[];
+  /** No bets within this many seconds of betting_ends */
+  blackoutSeconds?: number;
+}
+
+export interface PolicyConfig {
+  policy: SpendingPolicy;
+  policyFile: string;
+  ledgerPath: string;
+}
+
+export interface LedgerBet {
+  timestamp: string;
+  marketAddress: string;
+  marketId: string;
+  currencyType: Currency;
+  /** Stake in smallest units */
+  amount: string;
+  betYes: boolean;
+  category: string | null;
+  signature: string | null;
+  /** Set while the bet's transaction was sent but not seen confirmed */
+  submitted?: SubmittedTransaction | null;
+}
+
+interface Ledger {
+  bets: LedgerBet[];
+  /** Categories of markets, learned from bets and market creations */
+  marketCategories: Record<string, string>;
+}
+
+export interface PolicyBet {
+  marketAddress: string;
+  currencyType: Currency;
+  /** Stake in smallest units */
+  amount: string;
+  category?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const POLICY_RULES = [
+  'maxBetAmount',
+  'dailyLimit',
+  'maxMarketExposure',
+  'maxCategoryExposure',
+  'allowedOracles',
+  'allowedCategories',
+  'blackoutSeconds',
+];
+
+// ============================================================================
+// State
+// ============================================================================
+
+/**
+ * Tail of the check-to-record sequence of each currency. Bets in the same
+ * currency are evaluated one at a time, so concurrent callers (tools, order
+ * watcher, DCA runner) cannot all pass the same remaining headroom.
+ */
+const currencyQueues = new Map<Currency, Promise<unknown>>();
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Limit for a currency in smallest units, or null if the rule is not set
+ */
+function limitFor(limits: CurrencyLimits | undefined, currency: Currency): bigint | null {
+  const value = limits?.[currency];
+  return value === undefined ? null : parseAmount(value, currency);
+}
+
+function sum(bets: LedgerBet[]): bigint {
+  return bets.reduce((total, bet) => total + BigInt(bet.amount), 0n);
+}
+
+function startOfUtcDay(now: Date = new Date()): number {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+}
+
+function readLedger(config: PolicyConfig): Ledger {
+  return readJsonFile<Ledger>(config.ledgerPath, { bets: [], marketCategories: {} });
+}
+
+/**
+ * Run a task after every earlier task of the same currency has settled
+ */
+function serialize<T>(currency: Currency, task: () => Promise<T>): Promise<T> {
+  const previous = currencyQueues.get(currency) ?? Promise.resolve();
+  const run = previous.then(task, task);
+  currencyQueues.set(currency, run.catch(() => undefined));
+  return run;
+}
+
+/**
+ * Category of a bet's market: the one already recorded for the market wins,
+ * and a different one passed by the caller is rejected so it cannot be used
+ * to move the bet under another category's cap
+ */
+function resolveCategory(ledger: Ledger, bet: PolicyBet): string | null {
+  const known = ledger.marketCategories[bet.marketAddress];
+  if (known && bet.category && bet.category !== known) {
+    throw createInvalidInputError(
+      `Market ${bet.marketAddress} is recorded in category "${known}", not "${bet.category}"`,
+      { recordedCategory: known, category: bet.category }
+    );
+  }
+  return known ?? bet.category ?? null;
+}
+
+/**
+ * Settle ledger bets whose transaction was sent but not seen confirmed:
+ * keep them once landed, drop them once the transaction failed or can no
+ * longer land, and keep counting them while it is still pending
+ */
+async function settleSubmittedBets(connection: Connection, config: PolicyConfig): Promise<void> {
+  const unconfirmed = readLedger(config).bets.filter((b) => b.submitted);
+  if (unconfirmed.length === 0) return;
+
+  const settled = new Map<string, 'landed' | 'released'>();
+  for (const bet of unconfirmed) {
+    const { status } = await getSubmissionStatus(connection, bet.submitted!);
+    if (status === 'landed') settled.set(bet.submitted!.signature, 'landed');
+    else if (status !== 'pending') settled.set(bet.submitted!.signature, 'released');
+  }
+  if (settled.size === 0) return;
+
+  // Re-read, since bets may have been recorded while the statuses were fetched
+  const ledger = readLedger(config);
+  ledger.bets = ledger.bets
+    .filter((b) => !b.submitted || settled.get(b.submitted.signature) !== 'released')
+    .map((b) => (b.submitted && settled.has(b.submitted.signature) ? { ...b, submitted: null } : b));
+  writeJsonFile(config.ledgerPath, ledger);
+
+  for (const [signature, outcome] of settled) {
+    if (outcome === 'released') console.error(`↩️  Released spend of unconfirmed bet ${signature}`);
+  }
+}
+
+/**
+ * Keep only bets whose market is still unresolved
+ */
+async function openBets(connection: Connection, bets: LedgerBet[]): Promise<LedgerBet[]> {
+  const addresses = Array.from(new Set(bets.map((b) => b.marketAddress)));
+  if (addresses.length === 0) return [];
+
+  const program = getReadOnlyProgram(connection);
+  const markets = await (program.account as any).market.fetchMultiple(
+    addresses.map((a) => new PublicKey(a))
+  );
+  const resolved = new Set(addresses.filter((_, i) => markets[i]?.isResolved));
+
+  return bets.filter((b) => !resolved.has(b.marketAddress));
+}
+
+function checkCategory(policy: SpendingPolicy, category: string | null): void {
+  if (!policy.allowedCategories) return;
+
+  if (category === null) {
+    throw createPolicyError(
+      'allowedCategories',
+      'market category is unknown, pass the category argument',
+      { allowedCategories: policy.allowedCategories }
+    );
+  }
+  if (!policy.allowedCategories.includes(category)) {
+    throw createPolicyError(
+      'allowedCategories',
+      `category "${category}" is not allowed`,
+      { category, allowedCategories: policy.allowedCategories }
+    );
+  }
+}
+
+function checkOracle(policy: SpendingPolicy, oracle: string): void {
+  if (policy.allowedOracles && !policy.allowedOracles.includes(oracle)) {
+    throw createPolicyError('allowedOracles', `oracle ${oracle} is not allowed`, {
+      oracle,
+      allowedOracles: policy.allowedOracles,
+    });
+  }
+}
+
+/**
+ * Throw if usage plus the requested amount would exceed a limit
+ */
+function checkLimit(
+  rule: string,
+  limit: bigint | null,
+  used: bigint,
+  requested: bigint,
+  currency: Currency,
+  scope: string
+): void {
+  if (limit === null || used + requested <= limit) return;
+
+  throw createPolicyError(
+    rule,
+    `${formatAmount(requested, currency)} ${currency} would exceed the ${scope} limit of ` +
+      `${formatAmount(limit, currency)} ${currency} (already used ${formatAmount(used, currency)})`,
+    {
+      limit: formatAmount(limit, currency),
+      used: formatAmount(used, currency),
+      requested: formatAmount(requested, currency),
+      remaining: formatAmount(limit > used ? limit - used : 0n, currency),
+      currencyType: currency,
+    }
+  );
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load and validate a policy file
+ *
+ * @param policyFile - Path of the JSON policy file
+ * @param dataDir - Directory for the spend ledger
+ */
+export function loadPolicy(policyFile: string, dataDir: string): PolicyConfig {
+  const policy = readJsonFile<SpendingPolicy | null>(policyFile, null);
+  if (!policy) {
+    throw new Error(`Policy file ${policyFile} not found`);
+  }
+
+  const unknownRules = Object.keys(policy).filter((rule) => !POLICY_RULES.includes(rule));
+  if (unknownRules.length > 0) {
+    throw new Error(`Unknown rules in policy file ${policyFile}: ${unknownRules.join(', ')}`);
+  }
+
+  for (const rule of ['maxBetAmount', 'dailyLimit', 'maxMarketExposure', 'maxCategoryExposure'] as const) {
+    for (const [currency, value] of Object.entries(policy[rule] ?? {})) {
+      if (!(currency in CURRENCY_DECIMALS)) {
+        throw new Error(`Unknown currency ${rule}.${currency} in policy file ${policyFile}`);
+      }
+      try {
+        parseAmount(value, currency as Currency);
+      } catch (error) {
+        throw new Error(`Invalid ${rule}.${currency} in policy file ${policyFile}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  return { policy, policyFile, ledgerPath: join(dataDir, 'spend-ledger.json') };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Evaluate the policy for a bet, throwing a POLICY_VIOLATION error naming
+ * the first rule that denies it
+ *
+ * @param connection - Solana connection
+ * @param config - Loaded policy
+ * @param bet - Bet to evaluate
+ * @returns The category the bet was evaluated under
+ */
+export async function checkBet(
+  connection: Connection,
+  config: PolicyConfig,
+  bet: PolicyBet
+): Promise<string | null> {
+  const { policy } = config;
+  await settleSubmittedBets(connection, config);
+  const ledger = readLedger(config);
+  const currency = bet.currencyType;
+  const requested = BigInt(bet.amount);
+  const category = resolveCategory(ledger, bet);
+
+  const { account: market } = await fetchMarketAccount(connection, bet.marketAddress);
+
+  checkOracle(policy, market.oracle.toString());
+  checkCategory(policy, category);
+
+  if (policy.blackoutSeconds !== undefined) {
+    const secondsLeft = market.bettingEnds.toNumber() - Math.floor(Date.now() / 1000);
+    if (secondsLeft < policy.blackoutSeconds) {
+      throw createPolicyError(
+        'blackoutSeconds',
+        `betting ends in ${secondsLeft}s, inside the ${policy.blackoutSeconds}s blackout window`,
+        { bettingEnds: new Date(market.bettingEnds.toNumber() * 1000).toISOString() }
+      );
+    }
+  }
+
+  checkLimit('maxBetAmount', limitFor(policy.maxBetAmount, currency), 0n, requested, currency, 'per-bet');
+
+  const sameCurrency = ledger.bets.filter((b) => b.currencyType === currency);
+  const today = sameCurrency.filter((b) => Date.parse(b.timestamp) >= startOfUtcDay());
+  checkLimit('dailyLimit', limitFor(policy.dailyLimit, currency), sum(today), requested, currency, 'daily');
+
+  const inMarket = sameCurrency.filter((b) => b.marketAddress === bet.marketAddress);
+  checkLimit(
+    'maxMarketExposure',
+    limitFor(policy.maxMarketExposure, currency),
+    sum(inMarket),
+    requested,
+    currency,
+    'per-market exposure'
+  );
+
+  const categoryLimit = limitFor(policy.maxCategoryExposure, currency);
+  if (categoryLimit !== null) {
+    if (category === null) {
+      throw createPolicyError(
+        'maxCategoryExposure',
+        'market category is unknown, pass the category argument'
+      );
+    }
+    const inCategory = await openBets(
+      connection,
+      sameCurrency.filter((b) => b.category === category)
+    );
+    checkLimit(
+      'maxCategoryExposure',
+      categoryLimit,
+      sum(inCategory),
+      requested,
+      currency,
+      `"${category}" category exposure`
+    );
+  }
+
+  return category;
+}
+
+/**
+ * Evaluate the policy for a market creation
+ *
+ * @param config - Loaded policy
+ * @param market - Oracle and category of the market to create
+ */
+export function checkMarketCreation(
+  config: PolicyConfig,
+  market: { oracleAddress: string; category: string }
+): void {
+  checkOracle(config.policy, market.oracleAddress);
+  checkCategory(config.policy, market.category);
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+/**
+ * Record a submitted bet in the spend ledger
+ */
+export function recordBet(config: PolicyConfig, bet: Omit<LedgerBet, 'timestamp'>): void {
+  const ledger = readLedger(config);
+  ledger.bets.push({ timestamp: new Date().toISOString(), ...bet });
+  if (bet.category) ledger.marketCategories[bet.marketAddress] ??= bet.category;
+  writeJsonFile(config.ledgerPath, ledger);
+}
+
+/**
+ * Remember the category of a market created by this server
+ */
+export function recordMarketCategory(config: PolicyConfig, marketAddress: string, category: string): void {
+  const ledger = readLedger(config);
+  ledger.marketCategories[marketAddress] = category;
+  writeJsonFile(config.ledgerPath, ledger);
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Evaluate the policy, spend and record the bet in the spend ledger, with
+ * the whole sequence serialized per currency
+ *
+ * When spend() throws after sending a transaction, the bet is recorded with
+ * the submitted transaction, since it may have landed; checkBet releases it
+ * once the chain shows it dropped or failed.
+ *
+ * @param connection - Solana connection
+ * @param config - Loaded policy
+ * @param bet - Market, stake (smallest units), side and category
+ * @param spend - Places the bet; returns the ledger signature, or undefined if nothing was spent
+ */
+export function spendWithPolicy<T>(
+  connection: Connection,
+  config: PolicyConfig,
+  bet: PolicyBet & { marketId: number; betYes: boolean },
+  spend: () => Promise<{ result: T; signature?: string | null }>
+): Promise<T> {
+  return serialize(bet.currencyType, async () => {
+    const category = await checkBet(connection, config, bet);
+    const record = (signature: string | null, submitted: SubmittedTransaction | null = null) =>
+      recordBet(config, {
+        marketAddress: bet.marketAddress,
+        marketId: String(bet.marketId),
+        currencyType: bet.currencyType,
+        amount: bet.amount,
+        betYes: bet.betYes,
+        category,
+        signature,
+        submitted,
+      });
+
+    let spent: { result: T; signature?: string | null };
+    try {
+      spent = await spend();
+    } catch (error) {
+      const submitted = getSubmittedTransaction(decodeError(error));
+      if (submitted) record(submitted.signature, submitted);
+      throw error;
+    }
+
+    if (spent.signature !== undefined) record(spent.signature);
+    return spent.result;
+  });
+}
+
+/**
+ * Place a bet after evaluating the policy, recording it in the spend ledger
+ * once submitted, or once sent if confirming it failed
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the bettor
+ * @param policy - Spending policy to evaluate, if one is loaded
+ * @param bet - Market, stake (smallest units), side and category
+ * @param dryRun - Simulate the transaction instead of submitting it
+ */
+export async function placeBetWithPolicy(
+  connection: Connection,
+  wallet: Keypair,
+  policy: PolicyConfig | null,
+  bet: PolicyBet & { marketId: number; betYes: boolean },
+  dryRun: boolean = false
+): Promise<BetResult> {
+  const place = () => placeBet(
+    connection,
+    wallet,
+    bet.marketAddress,
+    bet.marketId,
+    bet.amount,
+    bet.betYes,
+    bet.currencyType,
+    dryRun
+  );
+
+  if (!policy) return place();
+
+  return spendWithPolicy(connection, policy, bet, async () => {
+    const result = await place();
+    return { result, signature: result.signature ?? undefined };
+  });
+}
+
+// ============================================================================
+// Status
+// ============================================================================
+
+/**
+ * Report the policy and remaining headroom per rule
+ *
+ * @param connection - Solana connection
+ * @param config - Loaded policy
+ */
+export async function getPolicyStatus(connection: Connection, config: PolicyConfig) {
+  const { policy } = config;
+  await settleSubmittedBets(connection, config);
+  const ledger = readLedger(config);
+  const open = await openBets(connection, ledger.bets);
+  const since = startOfUtcDay();
+
+  const headroom = (limit: bigint | null, used: bigint, currency: Currency) => ({
+    limit: limit !== null ? formatAmount(limit, currency) : null,
+    used: formatAmount(used, currency),
+    remaining: limit !== null ? formatAmount(limit > used ? limit - used : 0n, currency) : null,
+  });
+
+  const currencies = (['SOL', 'USDC'] as const).map((currency) => {
+    const today = ledger.bets.filter(
+      (b) => b.currencyType === currency && Date.parse(b.timestamp) >= since
+    );
+    const openInCurrency = open.filter((b) => b.currencyType === currency);
+    const group = (key: (b: LedgerBet) => string) => {
+      const groups = new Map<string, LedgerBet[]>();
+      for (const bet of openInCurrency) {
+        groups.set(key(bet), [...(groups.get(key(bet)) ?? []), bet]);
+      }
+      return groups;
+    };
+
+    return {
+      currencyType: currency,
+      maxBetAmount: limitFor(policy.maxBetAmount, currency) !== null
+        ? formatAmount(limitFor(policy.maxBetAmount, currency)!, currency)
+        : null,
+      daily: headroom(limitFor(policy.dailyLimit, currency), sum(today), currency),
+      markets: Array.from(group((b) => b.marketAddress)).map(([marketAddress, bets]) => ({
+        marketAddress,
+        ...headroom(limitFor(policy.maxMarketExposure, currency), sum(bets), currency),
+      })),
+      categories: Array.from(group((b) => b.category ?? 'unknown')).map(([category, bets]) => ({
+        category,
+        ...headroom(limitFor(policy.maxCategoryExposure, currency), sum(bets), currency),
+      })),
+    };
+  });
+
+  return {
+    policyFile: config.policyFile,
+    policy,
+    dailyWindowStart: new Date(since).toISOString(),
+    currencies,
+    allowedOracles: policy.allowedOracles ?? null,
+    allowedCategories: policy.allowedCategories ?? null,
+    blackoutSeconds: policy.blackoutSeconds ?? null,
+  };
+}
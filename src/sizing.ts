@@ -0,0 +1,239 @@
+/**
+ * Kelly Bet Sizing
+ *
+ * Sizes bets with the Kelly criterion against a parimutuel pool. A stake
+ * moves the odds it is paid at, so instead of the closed-form Kelly formula
+ * the stake that maximizes expected log bankroll is found by iterating over
+ * candidate stakes, each evaluated against the pools it would produce.
+ * suggestBetSizeFromChain feeds it a market's pools, the protocol fees and
+ * the wallet balance read from chain.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { MIN_BET_SOL, MIN_BET_USDC, toCurrencyType, toPlainObject } from './betting.js';
+import { fetchMarketAccount, fetchProtocolAccount, getWalletBalance } from './chain.js';
+import { formatAmount, parseAmount } from './amounts.js';
+import { createInvalidInputError } from './errors.js';
+import { FeeRates, Pools, calculateBetOutcome, impliedOdds } from './parimutuel.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SizingInput {
+  pools: Pools;
+  rates: FeeRates;
+  /** Agent's own estimate of the probability that YES happens (0-1) */
+  probabilityYes: number;
+  /** Bankroll in smallest units */
+  bankroll: bigint;
+  /** Fraction of full Kelly to stake (e.g. 0.5 for half Kelly) */
+  kellyFraction: number;
+  /** Smallest stake the program accepts, in smallest units */
+  minBet: bigint;
+}
+
+export interface SizingSide {
+  betYes: boolean;
+  /** Full-Kelly stake with price impact, in smallest units */
+  fullKellyAmount: bigint;
+  /** Expected log growth of the bankroll at the full-Kelly stake */
+  expectedLogGrowth: number;
+}
+
+export interface SizingResult {
+  /** Recommended side, null if neither side has an edge */
+  betYes: boolean | null;
+  /** Recommended stake (fractional Kelly), 0n if no bet */
+  amount: bigint;
+  fullKellyAmount: bigint;
+  /** Edge at the current odds: own probability minus implied probability of the side */
+  edge: number;
+  /** Expected profit of the recommended stake: p * payout - amount */
+  expectedValue: bigint;
+  oddsBefore: { yesProbability: number; noProbability: number };
+  oddsAfter: { yesProbability: number; noProbability: number };
+  priceImpact: number;
+  iterations: number;
+  reason: string;
+}
+
+/** Iterations of the golden-section search over the stake */
+const SEARCH_ITERATIONS = 100;
+
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+// ============================================================================
+// Sizing
+// ============================================================================
+
+/**
+ * Expected log bankroll after staking `stake` on one side
+ */
+function expectedLogGrowth(input: SizingInput, betYes: boolean, stake: number): number {
+  const bankroll = Number(input.bankroll);
+  const feeRate = (input.rates.creatorFeeBps + input.rates.protocolFeeBps) / 10_000;
+  const net = stake * (1 - feeRate);
+  const sidePool = Number(betYes ? input.pools.yesPool : input.pools.noPool) + net;
+  const totalPool = Number(input.pools.yesPool + input.pools.noPool) + net;
+  const payout = sidePool > 0 ? (net * totalPool) / sidePool : 0;
+  const p = betYes ? input.probabilityYes : 1 - input.probabilityYes;
+
+  return p * Math.log(bankroll - stake + payout) + (1 - p) * Math.log(bankroll - stake);
+}
+
+/**
+ * Find the full-Kelly stake for one side by golden-section search on the
+ * expected log growth, which is concave in the stake
+ */
+function sizeSide(input: SizingInput, betYes: boolean): SizingSide {
+  // Never stake the whole bankroll: log(0) on a loss
+  let low = 0;
+  let high = Number(input.bankroll) * (1 - 1e-9);
+  let a = high - GOLDEN_RATIO * (high - low);
+  let b = low + GOLDEN_RATIO * (high - low);
+
+  for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+    if (expectedLogGrowth(input, betYes, a) < expectedLogGrowth(input, betYes, b)) {
+      low = a;
+      a = b;
+      b = low + GOLDEN_RATIO * (high - low);
+    } else {
+      high = b;
+      b = a;
+      a = high - GOLDEN_RATIO * (high - low);
+    }
+  }
+
+  const stake = Math.floor((low + high) / 2);
+  const growth = expectedLogGrowth(input, betYes, stake) - Math.log(Number(input.bankroll));
+
+  return growth > 0
+    ? { betYes, fullKellyAmount: BigInt(stake), expectedLogGrowth: growth }
+    : { betYes, fullKellyAmount: 0n, expectedLogGrowth: 0 };
+}
+
+/**
+ * Suggest a fractional-Kelly stake for a market
+ *
+ * Both sides are sized and the one with the higher expected log growth is
+ * recommended. Stakes below the program minimum are reported as no bet.
+ *
+ * @param input - Pools, fees, own probability, bankroll and Kelly fraction
+ * @returns Recommended side and stake with expected value and odds shift
+ */
+export function suggestBetSize(input: SizingInput): SizingResult {
+  const oddsBefore = impliedOdds(input.pools);
+  const empty: SizingSide = { betYes: true, fullKellyAmount: 0n, expectedLogGrowth: 0 };
+  const yes = input.bankroll > 0n ? sizeSide(input, true) : empty;
+  const no = input.bankroll > 0n ? sizeSide(input, false) : empty;
+  const best = yes.expectedLogGrowth >= no.expectedLogGrowth ? yes : no;
+
+  const noBet = (reason: string, betYes: boolean | null = null): SizingResult => ({
+    betYes,
+    amount: 0n,
+    fullKellyAmount: best.fullKellyAmount,
+    edge: input.probabilityYes - oddsBefore.yesProbability,
+    expectedValue: 0n,
+    oddsBefore,
+    oddsAfter: oddsBefore,
+    priceImpact: 0,
+    iterations: SEARCH_ITERATIONS,
+    reason,
+  });
+
+  if (input.bankroll <= 0n) {
+    return noBet('Bankroll is empty');
+  }
+  if (best.fullKellyAmount === 0n) {
+    return noBet('No edge: your probability does not beat the odds after fees and price impact');
+  }
+
+  const amount = BigInt(Math.floor(Number(best.fullKellyAmount) * input.kellyFraction));
+  if (amount < input.minBet) {
+    return noBet('Kelly stake is below the program minimum bet', best.betYes);
+  }
+
+  const outcome = calculateBetOutcome(input.pools, input.rates, amount, best.betYes);
+  const p = best.betYes ? input.probabilityYes : 1 - input.probabilityYes;
+  const impliedSide = best.betYes ? oddsBefore.yesProbability : oddsBefore.noProbability;
+
+  return {
+    betYes: best.betYes,
+    amount,
+    fullKellyAmount: best.fullKellyAmount,
+    edge: p - impliedSide,
+    expectedValue: BigInt(Math.floor(p * Number(outcome.betPayoutIfWins))) - amount,
+    oddsBefore,
+    oddsAfter: outcome.oddsAfter,
+    priceImpact: outcome.priceImpact,
+    iterations: SEARCH_ITERATIONS,
+    reason: `Stake ${input.kellyFraction} x full Kelly on ${best.betYes ? 'YES' : 'NO'}`,
+  };
+}
+
+// ============================================================================
+// Chain
+// ============================================================================
+
+/**
+ * Suggest a Kelly stake for a market from its pools, the protocol fees and
+ * the caller's own probability estimate
+ *
+ * @param connection - Solana connection
+ * @param marketId - Numeric market ID or market address
+ * @param probabilityYes - Own estimate that YES happens (0-1)
+ * @param kellyFraction - Fraction of full Kelly to stake
+ * @param bankrollOwner - Wallet whose balance is the default bankroll
+ * @param bankroll - Optional decimal bankroll overriding the wallet balance
+ */
+export async function suggestBetSizeFromChain(
+  connection: Connection,
+  marketId: string | number,
+  probabilityYes: number,
+  kellyFraction: number,
+  bankrollOwner: PublicKey,
+  bankroll?: string
+) {
+  if (!(probabilityYes >= 0 && probabilityYes <= 1)) {
+    throw createInvalidInputError(`Probability must be between 0 and 1, got ${probabilityYes}`);
+  }
+  if (!(kellyFraction > 0 && kellyFraction <= 1)) {
+    throw createInvalidInputError(`Kelly fraction must be in (0, 1], got ${kellyFraction}`);
+  }
+
+  const { address, account: market } = await fetchMarketAccount(connection, marketId);
+  const protocol = await fetchProtocolAccount(connection);
+  const currency = toCurrencyType(market.currencyType);
+  const bankrollUnits = bankroll !== undefined
+    ? parseAmount(bankroll, currency)
+    : await getWalletBalance(connection, bankrollOwner, currency);
+
+  const result = suggestBetSize({
+    pools: { yesPool: BigInt(market.yesPool.toString()), noPool: BigInt(market.noPool.toString()) },
+    rates: { creatorFeeBps: protocol.creatorFeeBps, protocolFeeBps: protocol.protocolFeeBps },
+    probabilityYes,
+    bankroll: bankrollUnits,
+    kellyFraction,
+    minBet: BigInt((currency === 'SOL' ? MIN_BET_SOL : MIN_BET_USDC).toString()),
+  });
+
+  return {
+    marketId: market.id.toString(),
+    address: address.toString(),
+    title: market.title,
+    currencyType: currency,
+    probabilityYes,
+    kellyFraction,
+    bankroll: formatAmount(bankrollUnits, currency),
+    bankrollSource: bankroll !== undefined ? 'argument' : `wallet ${bankrollOwner.toString()}`,
+    side: result.betYes === null ? null : result.betYes ? 'YES' : 'NO',
+    ...toPlainObject(result),
+    formatted: {
+      amount: formatAmount(result.amount, currency),
+      fullKellyAmount: formatAmount(result.fullKellyAmount, currency),
+      expectedValue: formatAmount(result.expectedValue, currency),
+    },
+    source: 'chain',
+  };
+}
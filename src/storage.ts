@@ -0,0 +1,54 @@
+/**
+ * Local JSON Storage
+ *
+ * Small helpers for state the server keeps between restarts (spend ledger,
+ * order stores, ...). Each store is one JSON file under DATA_DIR.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Read a JSON file, returning the fallback if it does not exist yet
+ * @param path - File path
+ * @param fallback - Value to return for a missing file
+ */
+export function readJsonFile<T>(path: string, fallback: T): T {
+  if (!existsSync(path)) return fallback;
+  return JSON.parse(readFileSync(path, 'utf8')) as T;
+}
+
+/**
+ * Write a JSON file atomically (write to a temp file, then rename)
+ * @param path - File path, parent directories are created as needed
+ * @param data - JSON-serializable value
+ */
+export function writeJsonFile(path: string, data: unknown): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Read a JSON Lines file (one JSON value per line), empty if it does not exist yet
+ * @param path - File path
+ */
+export function readJsonLines<T>(path: string): T[] {
+  if (!existsSync(path)) return [];
+  return readFileSync(path, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line) => JSON.parse(line) as T);
+}
+
+/**
+ * Append records to a JSON Lines file
+ * @param path - File path, parent directories are created as needed
+ * @param records - JSON-serializable values, one line each
+ */
+export function appendJsonLines(path: string, records: unknown[]): void {
+  if (records.length === 0) return;
+  mkdirSync(dirname(path), { recursive: true });
+  appendFileSync(path, records.map((record) => JSON.stringify(record) + '\n').join(''));
+}
@@ -0,0 +1,159 @@
+/**
+ * Betting Strategies
+ *
+ * Pluggable strategy interface for the backtester. A strategy sees the same
+ * inputs the live tools expose (pools, implied odds, fee rates, time left
+ * until betting ends, its own position and bankroll) each time a market's
+ * pools change, and decides whether to bet.
+ */
+
+import { createInvalidInputError } from './errors.js';
+import { FeeRates, ImpliedOdds, Pools, Position } from './parimutuel.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StrategyContext {
+  marketAddress: string;
+  marketId: string;
+  title: string;
+  currencyType: 'SOL' | 'USDC';
+  /** Unix seconds of the observation */
+  time: number;
+  secondsToBettingEnds: number;
+  /** Pools including the strategy's own simulated stakes */
+  pools: Pools;
+  odds: ImpliedOdds;
+  rates: FeeRates;
+  /** Strategy's net stakes in this market */
+  position: Position;
+  /** Bets the strategy already placed in this market */
+  betCount: number;
+  /** Cash available in the market currency, smallest units */
+  bankroll: bigint;
+}
+
+export interface StrategyDecision {
+  betYes: boolean;
+  /** Gross stake in smallest units */
+  amount: bigint;
+}
+
+export interface Strategy {
+  name: string;
+  description: string;
+  /** Called after every change of a market's pools while betting is open */
+  decide(context: StrategyContext): StrategyDecision | null;
+}
+
+export interface StrategyParams {
+  /** Fraction of the current bankroll staked per bet */
+  stakeFraction?: number;
+  /** Implied probability threshold of the side (underdog / favorite) */
+  threshold?: number;
+  /** Move in YES probability since the market was first seen (momentum) */
+  minMove?: number;
+  /** Only bet when betting ends within this many seconds */
+  maxSecondsToEnd?: number;
+}
+
+// ============================================================================
+// Built-in Strategies
+// ============================================================================
+
+function stake(context: StrategyContext, params: StrategyParams): bigint {
+  return BigInt(Math.floor(Number(context.bankroll) * (params.stakeFraction ?? 0.02)));
+}
+
+function inWindow(context: StrategyContext, params: StrategyParams): boolean {
+  return params.maxSecondsToEnd === undefined || context.secondsToBettingEnds <= params.maxSecondsToEnd;
+}
+
+/**
+ * Bet once per market on the side whose implied probability is below the threshold
+ */
+function underdog(params: StrategyParams): Strategy {
+  const threshold = params.threshold ?? 0.3;
+
+  return {
+    name: 'underdog',
+    description: `Bet ${params.stakeFraction ?? 0.02} of bankroll once per market on a side priced below ${threshold}`,
+    decide(context) {
+      if (context.betCount > 0 || !inWindow(context, params)) return null;
+      if (context.odds.yesProbability < threshold) return { betYes: true, amount: stake(context, params) };
+      if (context.odds.noProbability < threshold) return { betYes: false, amount: stake(context, params) };
+      return null;
+    },
+  };
+}
+
+/**
+ * Bet once per market on the side whose implied probability is above the threshold
+ */
+function favorite(params: StrategyParams): Strategy {
+  const threshold = params.threshold ?? 0.7;
+
+  return {
+    name: 'favorite',
+    description: `Bet ${params.stakeFraction ?? 0.02} of bankroll once per market on a side priced above ${threshold}`,
+    decide(context) {
+      if (context.betCount > 0 || !inWindow(context, params)) return null;
+      if (context.odds.yesProbability > threshold) return { betYes: true, amount: stake(context, params) };
+      if (context.odds.noProbability > threshold) return { betYes: false, amount: stake(context, params) };
+      return null;
+    },
+  };
+}
+
+/**
+ * Bet once per market in the direction the YES probability has moved since
+ * the market was first seen, once the move reaches minMove
+ */
+function momentum(params: StrategyParams): Strategy {
+  const minMove = params.minMove ?? 0.1;
+  const firstSeen = new Map<string, number>();
+
+  return {
+    name: 'momentum',
+    description: `Bet ${params.stakeFraction ?? 0.02} of bankroll once per market in the direction of a ${minMove} move in YES probability`,
+    decide(context) {
+      const first = firstSeen.get(context.marketAddress);
+      if (first === undefined) {
+        firstSeen.set(context.marketAddress, context.odds.yesProbability);
+        return null;
+      }
+      if (context.betCount > 0 || !inWindow(context, params)) return null;
+
+      const move = context.odds.yesProbability - first;
+      if (Math.abs(move) < minMove) return null;
+      return { betYes: move > 0, amount: stake(context, params) };
+    },
+  };
+}
+
+/**
+ * Built-in strategies by name
+ */
+export const STRATEGIES: Record<string, (params: StrategyParams) => Strategy> = {
+  underdog,
+  favorite,
+  momentum,
+};
+
+/**
+ * Create a built-in strategy
+ *
+ * @param name - Strategy name (see STRATEGIES)
+ * @param params - Strategy parameters
+ */
+export function createStrategy(name: string, params: StrategyParams = {}): Strategy {
+  const factory = STRATEGIES[name];
+  if (!factory) {
+    throw createInvalidInputError(`Unknown strategy "${name}"`, { available: Object.keys(STRATEGIES) });
+  }
+  if (params.stakeFraction !== undefined && !(params.stakeFraction > 0 && params.stakeFraction <= 1)) {
+    throw createInvalidInputError(`stakeFraction must be between 0 and 1, got ${params.stakeFraction}`);
+  }
+  return factory(params);
+}
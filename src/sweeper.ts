@@ -0,0 +1,225 @@
+/**
+ * Auto-Claim Sweeper
+ *
+ * Scans every UserPosition account owned by the agent wallet, joins it with
+ * its Market account and claims each resolved, unclaimed winning position.
+ */
+
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { claimWinnings, getProgram, toCurrencyType } from './betting.js';
+import { BettingError, BettingErrorCode, decodeError } from './errors.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ClaimablePosition {
+  marketAddress: string;
+  marketId: string;
+  title: string;
+  currencyType: 'SOL' | 'USDC';
+  outcome: boolean;
+  yesAmount: string;
+  noAmount: string;
+}
+
+export interface SweepReport {
+  scannedPositions: number;
+  claimable: number;
+  claimed: Array<ClaimablePosition & { signature: string; payoutAmount: string | null }>;
+  skipped: Array<{ marketAddress: string; title: string; reason: string }>;
+  failed: Array<{ marketAddress: string; title: string; error: ReturnType<BettingError['toJSON']> }>;
+  /** Sum of decoded payouts in smallest units, per currency */
+  totals: { SOL: string; USDC: string };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Offset of UserPosition.user: 8-byte discriminator + 32-byte market pubkey */
+const USER_POSITION_USER_OFFSET = 8 + 32;
+
+/**
+ * Program errors that mean "nothing to claim here" rather than a failure
+ */
+const SKIPPABLE_ERRORS: BettingErrorCode[] = [
+  BettingErrorCode.NEEDS_REFUND,
+  BettingErrorCode.NO_WINNING_BETS,
+  BettingErrorCode.ALREADY_CLAIMED,
+];
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+/**
+ * Find all resolved winning positions of a wallet that have not been claimed
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair whose positions should be scanned
+ * @returns Claimable positions and the number of positions scanned
+ */
+export async function findClaimablePositions(
+  connection: Connection,
+  wallet: Keypair
+): Promise<{ scannedPositions: number; positions: ClaimablePosition[] }> {
+  const program = getProgram(connection, wallet);
+
+  const userPositions = await (program.account as any).userPosition.all([
+    {
+      memcmp: {
+        offset: USER_POSITION_USER_OFFSET,
+        bytes: wallet.publicKey.toBase58(),
+      },
+    },
+  ]);
+
+  const unclaimed = userPositions.filter((p: any) => !p.account.claimed);
+  if (unclaimed.length === 0) {
+    return { scannedPositions: userPositions.length, positions: [] };
+  }
+
+  const marketKeys: PublicKey[] = unclaimed.map((p: any) => p.account.market);
+  const markets = await (program.account as any).market.fetchMultiple(marketKeys);
+
+  const positions: ClaimablePosition[] = [];
+  unclaimed.forEach((position: any, i: number) => {
+    const market = markets[i];
+    if (!market || !market.isResolved || market.outcome === null) {
+      return;
+    }
+
+    const winningAmount = market.outcome ? position.account.yesAmount : position.account.noAmount;
+    if (winningAmount.isZero()) {
+      return;
+    }
+
+    positions.push({
+      marketAddress: marketKeys[i].toString(),
+      marketId: market.id.toString(),
+      title: market.title,
+      currencyType: toCurrencyType(market.currencyType),
+      outcome: market.outcome,
+      yesAmount: position.account.yesAmount.toString(),
+      noAmount: position.account.noAmount.toString(),
+    });
+  });
+
+  return { scannedPositions: userPositions.length, positions };
+}
+
+// ============================================================================
+// Claiming
+// ============================================================================
+
+/**
+ * Claim every unclaimed winning position of a wallet
+ *
+ * Claims are sent sequentially. Markets that need a refund, have no winning
+ * bets or were claimed in the meantime are reported as skipped; other errors are reported as failed
+ * without aborting the sweep.
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the winner
+ * @returns Per-market report of payouts and failures
+ */
+export async function claimAllWinnings(
+  connection: Connection,
+  wallet: Keypair
+): Promise<SweepReport> {
+  console.error(`\n🧹 SWEEPING UNCLAIMED WINNINGS`);
+  console.error(`${'='.repeat(60)}`);
+  console.error(`   Wallet: ${wallet.publicKey.toString()}`);
+  console.error(`${'='.repeat(60)}\n`);
+
+  const { scannedPositions, positions } = await findClaimablePositions(connection, wallet);
+
+  const report: SweepReport = {
+    scannedPositions,
+    claimable: positions.length,
+    claimed: [],
+    skipped: [],
+    failed: [],
+    totals: { SOL: '0', USDC: '0' },
+  };
+
+  console.error(`📍 Scanned ${scannedPositions} positions, ${positions.length} claimable\n`);
+
+  const totals = { SOL: 0n, USDC: 0n };
+
+  for (const position of positions) {
+    try {
+      const result = await claimWinnings(connection, wallet, position.marketAddress);
+      report.claimed.push({
+        ...position,
+        signature: result.signature,
+        payoutAmount: result.payoutAmount,
+      });
+      if (result.payoutAmount !== null) {
+        totals[position.currencyType] += BigInt(result.payoutAmount);
+      }
+    } catch (error) {
+      const bettingError = decodeError(error);
+
+      if (SKIPPABLE_ERRORS.includes(bettingError.code)) {
+        report.skipped.push({
+          marketAddress: position.marketAddress,
+          title: position.title,
+          reason: bettingError.message,
+        });
+      } else {
+        report.failed.push({
+          marketAddress: position.marketAddress,
+          title: position.title,
+          error: bettingError.toJSON(),
+        });
+      }
+    }
+  }
+
+  report.totals = { SOL: totals.SOL.toString(), USDC: totals.USDC.toString() };
+
+  console.error(`\n✅ SWEEP COMPLETE`);
+  console.error(`${'='.repeat(60)}`);
+  console.error(`   Claimed: ${report.claimed.length}`);
+  console.error(`   Skipped: ${report.skipped.length}`);
+  console.error(`   Failed: ${report.failed.length}`);
+  console.error(`${'='.repeat(60)}\n`);
+
+  return report;
+}
+
+/**
+ * Start a background loop that periodically claims all winnings
+ *
+ * @param connection - Solana connection
+ * @param wallet - Keypair of the winner
+ * @param intervalMs - Delay between sweeps in milliseconds
+ * @returns Function that stops the loop
+ */
+export function startAutoClaimSweeper(
+  connection: Connection,
+  wallet: Keypair,
+  intervalMs: number
+): () => void {
+  let running = false;
+
+  const sweep = async () => {
+    // Skip this tick if the previous sweep is still sending claims
+    if (running) return;
+    running = true;
+    try {
+      await claimAllWinnings(connection, wallet);
+    } catch (error) {
+      console.error('⚠️  Auto-claim sweep failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(sweep, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatAmount } from '../src/amounts.js';
+import { BacktestConfig, runBacktest } from '../src/backtest.js';
+import { IndexedEvent, IndexedEventName } from '../src/indexer.js';
+import { Strategy } from '../src/strategies.js';
+
+const STAKE = 100_000_000n;
+
+function event(name: IndexedEventName, blockTime: number, data: Record<string, any>): IndexedEvent {
+  return { signature: `sig-${blockTime}`, slot: blockTime, blockTime, index: 0, name, data };
+}
+
+const created = (market: string, t: number) =>
+  event('marketCreated', t, { marketAddress: market, marketId: market, title: market, bettingEnds: '1000' });
+const betPlaced = (market: string, t: number) =>
+  event('betPlaced', t, {
+    marketAddress: market,
+    currencyType: 'SOL',
+    newYesPool: String(STAKE),
+    newNoPool: String(STAKE),
+  });
+
+/** Bets `amount` on YES the first time it sees a market */
+function yesOnce(amount: bigint): Strategy {
+  return {
+    name: 'yes-once',
+    description: 'Bet YES once per market',
+    decide: (context) => (context.betCount === 0 ? { betYes: true, amount } : null),
+  };
+}
+
+const config: BacktestConfig = {
+  rates: { creatorFeeBps: 0, protocolFeeBps: 0 },
+  bankroll: { SOL: 1_000_000_000n },
+};
+
+describe('runBacktest', () => {
+  const events = [
+    created('won', 1),
+    created('lost', 2),
+    created('refunded', 3),
+    betPlaced('won', 10),
+    betPlaced('lost', 20),
+    betPlaced('refunded', 30),
+    betPlaced('unknown', 40),
+    event('marketResolved', 50, { marketAddress: 'won', outcome: true }),
+    event('marketResolved', 60, { marketAddress: 'lost', outcome: false }),
+    event('marketNeedsRefund', 70, { marketAddress: 'refunded' }),
+  ];
+
+  it('settles each market from the pools including its own stakes', () => {
+    const report = runBacktest(events, yesOnce(STAKE), config);
+    const byMarket = Object.fromEntries(report.markets.map((m) => [m.marketAddress, m]));
+
+    // 100M on YES against 100M / 100M: pays 100M * 300M / 200M
+    assert.equal(byMarket.won.result, 'won');
+    assert.equal(byMarket.won.payout, formatAmount(150_000_000n, 'SOL'));
+    assert.equal(byMarket.lost.result, 'lost');
+    assert.equal(byMarket.lost.payout, formatAmount(0n, 'SOL'));
+    assert.equal(byMarket.refunded.result, 'refunded');
+    assert.equal(byMarket.refunded.payout, formatAmount(STAKE, 'SOL'));
+    assert.equal(report.marketsSkipped, 1);
+  });
+
+  it('aggregates profit, hit rate and drawdown per currency', () => {
+    const sol = runBacktest(events, yesOnce(STAKE), config).currencies.SOL!;
+
+    assert.equal(sol.bets, 3);
+    assert.equal(sol.totalStaked, formatAmount(300_000_000n, 'SOL'));
+    assert.equal(sol.realizedProfit, formatAmount(-50_000_000n, 'SOL'));
+    assert.equal(sol.endingBankroll, formatAmount(950_000_000n, 'SOL'));
+    assert.equal(sol.roi, -50 / 300);
+    assert.equal(sol.hitRate, 0.5);
+    // Peak 1.05 SOL after the win, 0.95 SOL after the loss
+    assert.equal(sol.maxDrawdown, formatAmount(100_000_000n, 'SOL'));
+    assert.equal(sol.maxDrawdownPct, 100 / 1050);
+  });
+
+  it('charges fees on simulated bets', () => {
+    const report = runBacktest(events, yesOnce(STAKE), {
+      ...config,
+      rates: { creatorFeeBps: 100, protocolFeeBps: 100 },
+    });
+
+    assert.equal(report.currencies.SOL!.feesPaid, formatAmount(6_000_000n, 'SOL'));
+  });
+
+  it('charges the fee rate recorded on the bet it follows', () => {
+    const recorded = event('betPlaced', 10, {
+      marketAddress: 'won',
+      currencyType: 'SOL',
+      amount: '10000000',
+      netAmount: '9700000',
+      newYesPool: String(STAKE),
+      newNoPool: String(STAKE),
+    });
+    const report = runBacktest([created('won', 1), recorded], yesOnce(STAKE), config);
+
+    assert.equal(report.currencies.SOL!.feesPaid, formatAmount(3_000_000n, 'SOL'));
+  });
+
+  it('replays markets created before since but only bets from since on', () => {
+    const report = runBacktest(events, yesOnce(STAKE), { ...config, since: 15 });
+
+    assert.deepEqual(report.markets.map((m) => m.marketAddress), ['lost', 'refunded']);
+  });
+
+  it('rejects stakes below the minimum bet and skips closed markets', () => {
+    const small = runBacktest(events, yesOnce(1_000n), config);
+    assert.equal(small.rejectedDecisions, 3);
+    assert.deepEqual(small.markets, []);
+
+    const late = runBacktest([created('won', 1), betPlaced('won', 1000)], yesOnce(STAKE), config);
+    assert.deepEqual(late.markets, []);
+  });
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatAmount } from '../src/amounts.js';
+import { buildOddsCandles, parseBucket } from '../src/candles.js';
+import { IndexedEvent } from '../src/indexer.js';
+
+function bet(blockTime: number, betYes: boolean, amount: number, newYesPool: number, newNoPool: number): IndexedEvent {
+  return {
+    signature: `sig-${blockTime}`,
+    slot: blockTime,
+    blockTime,
+    index: 0,
+    name: 'betPlaced',
+    data: {
+      betYes,
+      amount: String(amount),
+      netAmount: String(amount),
+      newYesPool: String(newYesPool),
+      newNoPool: String(newNoPool),
+      currencyType: 'SOL',
+    },
+  };
+}
+
+describe('parseBucket', () => {
+  it('parses minutes, hours and days', () => {
+    assert.equal(parseBucket('5m'), 300);
+    assert.equal(parseBucket('1h'), 3600);
+    assert.equal(parseBucket('2d'), 172_800);
+  });
+
+  it('rejects zero and unknown units', () => {
+    assert.throws(() => parseBucket('0m'));
+    assert.throws(() => parseBucket('1w'));
+  });
+});
+
+describe('buildOddsCandles', () => {
+  const events = [
+    bet(0, true, 100, 300, 200),
+    bet(30, false, 100, 300, 300),
+    bet(200, true, 100, 400, 300),
+  ];
+
+  it('opens at the probability before the first bet and tracks the range', () => {
+    const [first] = buildOddsCandles(events, 60).candles;
+
+    assert.equal(first.time, 0);
+    assert.equal(first.open, 0.5);
+    assert.equal(first.high, 0.6);
+    assert.equal(first.low, 0.5);
+    assert.equal(first.close, 0.5);
+    assert.equal(first.bets, 2);
+    assert.equal(first.yesVolume, formatAmount(100n, 'SOL'));
+    assert.equal(first.volume, formatAmount(200n, 'SOL'));
+  });
+
+  it('fills empty buckets with flat candles at the previous close', () => {
+    const { candles } = buildOddsCandles(events, 60);
+
+    assert.deepEqual(candles.map((c) => c.time), [0, 60, 120, 180]);
+    for (const gap of candles.slice(1, 3)) {
+      assert.equal(gap.bets, 0);
+      assert.equal(gap.open, 0.5);
+      assert.equal(gap.close, 0.5);
+    }
+    assert.equal(candles[3].open, 0.5);
+    assert.equal(candles[3].close, 4 / 7);
+  });
+
+  it('summarizes the change over the whole series', () => {
+    const { summary, currencyType } = buildOddsCandles(events, 60);
+
+    assert.equal(currencyType, 'SOL');
+    assert.equal(summary.bets, 3);
+    assert.equal(summary.firstProbability, 0.5);
+    assert.equal(summary.lastProbability, 4 / 7);
+    assert.equal(summary.change, 4 / 7 - 0.5);
+  });
+
+  it('builds at most 1000 candles, opening at the odds left by older bets', () => {
+    const history = buildOddsCandles([bet(0, true, 100, 300, 200), bet(60 * 5000, true, 100, 400, 200)], 60);
+    const [first] = history.candles;
+
+    assert.equal(history.truncated, true);
+    assert.equal(history.candles.length, 1000);
+    assert.equal(first.time, 60 * 4001);
+    assert.equal(first.open, 0.6);
+    assert.equal(first.bets, 0);
+    assert.equal(history.summary.bets, 2);
+    assert.equal(history.summary.firstProbability, 0.5);
+  });
+
+  it('returns no candles without bets', () => {
+    const history = buildOddsCandles([], 60);
+
+    assert.deepEqual(history.candles, []);
+    assert.equal(history.currencyType, null);
+    assert.equal(history.summary.change, null);
+  });
+});
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BettingErrorCode, decodeError } from '../src/errors.js';
+
+describe('decodeError', () => {
+  it('classifies HTTP rate limits and gateway errors as retryable RPC errors', () => {
+    for (const message of [
+      '429 Too Many Requests: {"jsonrpc":"2.0","error":{"code":429}}',
+      'failed to get recent blockhash: 503 Service Unavailable',
+      'Request failed with status 502',
+      'fetch failed',
+    ]) {
+      const error = decodeError(new Error(message));
+      assert.equal(error.code, BettingErrorCode.RPC_ERROR, message);
+      assert.equal(error.retryable, true, message);
+    }
+  });
+
+  it('ignores status-like digits inside addresses, signatures and amounts', () => {
+    const error = decodeError(new Error('Unexpected owner of account 4295Ab8cEs5030 holding 5029 lamports'));
+
+    assert.equal(error.code, BettingErrorCode.UNKNOWN);
+    assert.equal(error.retryable, false);
+  });
+
+  it('decodes custom program errors by number', () => {
+    const error = decodeError(new Error('Transaction failed: custom program error: 0x1779'));
+
+    assert.equal(error.code, BettingErrorCode.RESOLUTION_EXPIRED);
+  });
+});
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { HedgeInput, calculateHedge } from '../src/hedge.js';
+
+/** 200k on YES in an even 1M / 1M market without fees: pays 400k on YES, nothing on NO */
+const longYes: HedgeInput = {
+  pools: { yesPool: 1_000_000n, noPool: 1_000_000n },
+  rates: { creatorFeeBps: 0, protocolFeeBps: 0 },
+  position: { yesAmount: 200_000n, noAmount: 0n },
+  totalDeposited: 200_000n,
+  mode: 'equalize',
+};
+
+describe('calculateHedge', () => {
+  it('bets the other side until both outcomes pay the same', () => {
+    // 200k * (2M + x) / 1M = x * (2M + x) / (1M + x)  =>  x = 250k
+    const hedge = calculateHedge(longYes);
+
+    assert.equal(hedge.betYes, false);
+    assert.equal(hedge.amount, 250_000n);
+    assert.equal(hedge.before.worstCase, -200_000n);
+    assert.equal(hedge.after.payoutIfYes, 450_000n);
+    assert.equal(hedge.after.payoutIfNo, 450_000n);
+    assert.equal(hedge.achievable, true);
+  });
+
+  it('stops at the smallest stake that caps the loss', () => {
+    const hedge = calculateHedge({ ...longYes, mode: 'max_loss', maxLoss: 50_000n });
+
+    assert.equal(hedge.betYes, false);
+    assert.ok(hedge.amount > 0n && hedge.amount < 250_000n, `got ${hedge.amount}`);
+    assert.ok(hedge.after.worstCase >= -50_000n);
+    assert.equal(hedge.achievable, true);
+
+    const smaller = calculateHedge({ ...longYes, mode: 'max_loss', maxLoss: 50_001n });
+    assert.ok(smaller.amount <= hedge.amount);
+  });
+
+  it('returns the equalizing stake when fees make the loss target unreachable', () => {
+    const withFees = { ...longYes, rates: { creatorFeeBps: 100, protocolFeeBps: 100 } };
+    const equalize = calculateHedge(withFees);
+    const hedge = calculateHedge({ ...withFees, mode: 'max_loss', maxLoss: 0n });
+
+    assert.equal(hedge.achievable, false);
+    assert.equal(hedge.amount, equalize.amount);
+    assert.ok(hedge.after.worstCase < 0n);
+  });
+
+  it('does not hedge a loss already within the target', () => {
+    const hedge = calculateHedge({ ...longYes, mode: 'max_loss', maxLoss: 200_000n });
+
+    assert.equal(hedge.betYes, null);
+    assert.equal(hedge.amount, 0n);
+  });
+
+  it('has nothing to hedge without a position', () => {
+    const hedge = calculateHedge({ ...longYes, position: { yesAmount: 0n, noAmount: 0n }, totalDeposited: 0n });
+
+    assert.equal(hedge.betYes, null);
+    assert.equal(hedge.achievable, false);
+  });
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { Connection } from '@solana/web3.js';
+import { IdempotencyRecord, withIdempotency } from '../src/idempotency.js';
+
+const REQUEST = { marketAddress: 'market', amount: '100', betYes: true };
+
+/** Store holding one record whose attempt failed after sending a transaction */
+function storeWithFailedAttempt(key: string): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'idempotency-')), 'store.json');
+  const record: IdempotencyRecord = {
+    key,
+    status: 'failed',
+    request: REQUEST,
+    signature: null,
+    event: null,
+    error: null,
+    submitted: { signature: 'first-attempt', lastValidBlockHeight: 100 },
+    createdAt: new Date(0).toISOString(),
+    updatedAt: new Date(0).toISOString(),
+  };
+  writeFileSync(path, JSON.stringify({ [key]: record }));
+  return path;
+}
+
+/** Connection reporting the first attempt's transaction as never seen, at the given block height */
+function connectionAt(blockHeight: number): Connection {
+  return {
+    getBlockHeight: async () => blockHeight,
+    getSignatureStatus: async () => ({ context: { slot: 0 }, value: null }),
+  } as unknown as Connection;
+}
+
+describe('withIdempotency', () => {
+  it('executes a dropped attempt again only once for concurrent retries', async () => {
+    const storePath = storeWithFailedAttempt('key');
+    let executions = 0;
+    const execute = async () => {
+      executions++;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return { signature: 'second-attempt', event: null };
+    };
+    const retry = () => withIdempotency(connectionAt(200), storePath, 'key', REQUEST, 'betPlaced', execute);
+
+    const results = await Promise.all([retry(), retry()]);
+
+    assert.equal(executions, 1);
+    assert.deepEqual(results.map((r) => r.record.signature), ['second-attempt', 'second-attempt']);
+    assert.deepEqual(results.map((r) => r.replayed).sort(), [false, true]);
+  });
+
+  it('refuses to run again while the earlier transaction may still land', async () => {
+    const storePath = storeWithFailedAttempt('key');
+    let executions = 0;
+    const execute = async () => {
+      executions++;
+      return { signature: 'second-attempt', event: null };
+    };
+
+    await assert.rejects(
+      withIdempotency(connectionAt(50), storePath, 'key', REQUEST, 'betPlaced', execute),
+      /may still land/
+    );
+    assert.equal(executions, 0);
+  });
+
+  it('rejects a key reused with different parameters', async () => {
+    const storePath = storeWithFailedAttempt('key');
+
+    await assert.rejects(
+      withIdempotency(connectionAt(200), storePath, 'key', { ...REQUEST, amount: '200' }, 'betPlaced', async () => ({
+        signature: null,
+        event: null,
+      })),
+      /different parameters/
+    );
+  });
+});
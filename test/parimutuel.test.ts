@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { calculateBetOutcome, calculateFees, impliedOdds, winningPayout } from '../src/parimutuel.js';
+
+const rates = { creatorFeeBps: 100, protocolFeeBps: 100 };
+
+describe('calculateFees', () => {
+  it('floors the creator and protocol fee separately', () => {
+    // 200 bps on the sum would floor 19.98 to 19; per fee it is 14 + 4
+    const fees = calculateFees(999n, { creatorFeeBps: 150, protocolFeeBps: 50 });
+
+    assert.equal(fees.creatorFee, 14n);
+    assert.equal(fees.protocolFee, 4n);
+    assert.equal(fees.totalFee, 18n);
+    assert.equal(fees.netAmount, 981n);
+  });
+
+  it('charges nothing on stakes too small for one unit of fee', () => {
+    const fees = calculateFees(99n, rates);
+
+    assert.equal(fees.totalFee, 0n);
+    assert.equal(fees.netAmount, 99n);
+  });
+});
+
+describe('winningPayout', () => {
+  it('pays stake * total_pool / winning_pool, floored', () => {
+    assert.equal(winningPayout(1n, 3n, 10n), 3n);
+  });
+
+  it('pays nothing when the winning pool is empty', () => {
+    assert.equal(winningPayout(100n, 0n, 500n), 0n);
+  });
+
+  it('pays nothing on a zero stake', () => {
+    assert.equal(winningPayout(0n, 100n, 500n), 0n);
+  });
+});
+
+describe('impliedOdds', () => {
+  it('splits an empty market evenly', () => {
+    assert.deepEqual(impliedOdds({ yesPool: 0n, noPool: 0n }), { yesProbability: 0.5, noProbability: 0.5 });
+  });
+});
+
+describe('calculateBetOutcome', () => {
+  it('moves the pools by the net amount and pays the winning side', () => {
+    const outcome = calculateBetOutcome({ yesPool: 1_000_000n, noPool: 1_000_000n }, rates, 100_000n, true);
+
+    assert.equal(outcome.netAmount, 98_000n);
+    assert.deepEqual(outcome.poolsAfter, { yesPool: 1_098_000n, noPool: 1_000_000n, totalPool: 2_098_000n });
+    assert.equal(outcome.betPayoutIfWins, 187_253n);
+    assert.equal(outcome.betProfitIfWins, 87_253n);
+    assert.equal(outcome.payoutIfNo, 0n);
+    assert.ok(outcome.priceImpact > 0);
+  });
+
+  it('pays the whole position across several bets', () => {
+    const first = calculateBetOutcome({ yesPool: 1_000_000n, noPool: 1_000_000n }, rates, 100_000n, true);
+    const second = calculateBetOutcome(
+      { yesPool: first.poolsAfter.yesPool, noPool: first.poolsAfter.noPool },
+      rates,
+      50_000n,
+      false,
+      { yesAmount: first.netAmount, noAmount: 0n }
+    );
+
+    assert.deepEqual(second.poolsAfter, { yesPool: 1_098_000n, noPool: 1_049_000n, totalPool: 2_147_000n });
+    // The NO bet dilutes the YES payout of the first bet and adds its own NO payout
+    assert.equal(second.payoutIfYes, 191_626n);
+    assert.equal(second.payoutIfNo, 100_288n);
+    assert.equal(second.betPayoutIfWins, 100_288n);
+    assert.ok(second.priceImpact > 0);
+  });
+
+  it('pays nothing on a side whose pool stays empty', () => {
+    const outcome = calculateBetOutcome({ yesPool: 0n, noPool: 1_000n }, rates, 0n, true);
+
+    assert.equal(outcome.payoutIfYes, 0n);
+    assert.equal(outcome.betPayoutIfWins, 0n);
+  });
+});
@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatAmount } from '../src/amounts.js';
+import { IndexedEvent } from '../src/indexer.js';
+import { PnlHolding, buildPnlReport } from '../src/pnl.js';
+
+const WALLET = 'wallet';
+
+/** 500 net on YES for 510 deposited, in an even 1000 / 1000 market */
+function holding(
+  marketAddress: string,
+  market: { isResolved?: boolean; outcome?: boolean | null; currency?: 'sol' | 'usdc' },
+  claimed: { payoutAmount: bigint } | null = null
+): PnlHolding {
+  return {
+    marketAddress,
+    position: {
+      yesAmount: 500n,
+      noAmount: 0n,
+      totalDeposited: 510n,
+      claimed: claimed !== null,
+      payoutAmount: claimed?.payoutAmount ?? 0n,
+    },
+    market: {
+      id: 1n,
+      title: marketAddress,
+      currencyType: { [market.currency ?? 'sol']: {} },
+      yesPool: 1000n,
+      noPool: 1000n,
+      isResolved: market.isResolved ?? false,
+      outcome: market.outcome ?? null,
+    },
+  };
+}
+
+const sol = (units: bigint) => formatAmount(units, 'SOL');
+
+describe('buildPnlReport', () => {
+  const holdings = [
+    holding('open', {}),
+    holding('won', { isResolved: true, outcome: true }),
+    holding('lost', { isResolved: true, outcome: false }),
+    holding('refund', { isResolved: true, outcome: null }),
+    holding('claimed', { isResolved: true, outcome: true }, { payoutAmount: 1000n }),
+    holding('usdc', { currency: 'usdc' }),
+  ];
+  const claim: IndexedEvent = {
+    signature: 'claim-sig',
+    slot: 1,
+    blockTime: 1_700_000_000,
+    index: 0,
+    name: 'winningsClaimed',
+    data: { marketAddress: 'claimed', user: WALLET },
+  };
+  const report = buildPnlReport(WALLET, holdings, [claim]);
+  const line = (address: string) => report.positions!.find((p) => p.marketAddress === address)!;
+
+  it('marks open positions to the implied odds', () => {
+    // P(YES) 0.5 * payout 1000
+    assert.equal(line('open').status, 'open');
+    assert.equal(line('open').markValue, sol(500n));
+    assert.equal(line('open').unrealizedPnl, sol(-10n));
+    assert.equal(line('open').feesPaid, sol(10n));
+  });
+
+  it('realizes resolved positions, claimed or not', () => {
+    assert.equal(line('won').status, 'won');
+    assert.equal(line('won').realizedPnl, sol(490n));
+    assert.equal(line('lost').status, 'lost');
+    assert.equal(line('lost').realizedPnl, sol(-510n));
+    assert.equal(line('refund').status, 'refund');
+    assert.equal(line('refund').payout, sol(500n));
+    assert.equal(line('claimed').payout, sol(1000n));
+    assert.equal(line('claimed').claimSignature, 'claim-sig');
+    assert.equal(line('claimed').claimedAt, new Date(1_700_000_000_000).toISOString());
+  });
+
+  it('marks large pools without losing precision', () => {
+    const [open] = buildPnlReport(WALLET, [{
+      marketAddress: 'large',
+      position: { yesAmount: 123_456_789_123_456_789n, noAmount: 0n, totalDeposited: 123_456_789_123_456_789n },
+      market: {
+        id: 1n,
+        title: 'large',
+        currencyType: { sol: {} },
+        yesPool: 300_000_000_000_000_007n,
+        noPool: 700_000_000_000_000_003n,
+        isResolved: false,
+      },
+    }]).positions!;
+
+    assert.equal(open.markValue, sol(123_456_789_123_456_788n));
+  });
+
+  it('labels a winning side that paid back less than deposited as won', () => {
+    // 500 net on YES, 1000 / 0 pools: pays back 500 of 510 deposited
+    const [position] = buildPnlReport(WALLET, [{
+      ...holding('thin', { isResolved: true, outcome: true }),
+      market: { ...holding('thin', {}).market, noPool: 0n, isResolved: true, outcome: true },
+    }]).positions!;
+
+    assert.equal(position.status, 'won');
+    assert.equal(position.realizedPnl, sol(-10n));
+  });
+
+  it('totals each currency separately', () => {
+    assert.equal(report.SOL.positions, 5);
+    assert.equal(report.SOL.open, 1);
+    assert.equal(report.SOL.settled, 4);
+    assert.equal(report.SOL.deposited, sol(2550n));
+    assert.equal(report.SOL.feesPaid, sol(50n));
+    assert.equal(report.SOL.realizedPnl, sol(460n));
+    assert.equal(report.SOL.unrealizedPnl, sol(-10n));
+    assert.equal(report.SOL.totalPnl, sol(450n));
+    assert.equal(report.SOL.claimedPayouts, sol(1000n));
+    assert.equal(report.SOL.unclaimedWinnings, sol(1000n));
+    assert.equal(report.SOL.pendingRefunds, sol(500n));
+    assert.equal(report.USDC.positions, 1);
+    assert.equal(report.USDC.markValue, formatAmount(500n, 'USDC'));
+  });
+
+  it('leaves out position lines on request', () => {
+    assert.equal('positions' in buildPnlReport(WALLET, holdings, [], false), false);
+  });
+});
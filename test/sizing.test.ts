@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SizingInput, suggestBetSize } from '../src/sizing.js';
+
+/** Deep even pools without fees: the stake barely moves the 2.0 odds */
+const deepMarket: SizingInput = {
+  pools: { yesPool: 1_000_000_000_000n, noPool: 1_000_000_000_000n },
+  rates: { creatorFeeBps: 0, protocolFeeBps: 0 },
+  probabilityYes: 0.6,
+  bankroll: 1_000_000_000n,
+  kellyFraction: 1,
+  minBet: 1_000n,
+};
+
+describe('suggestBetSize', () => {
+  it('matches the closed-form Kelly stake when price impact is negligible', () => {
+    // f* = (p * b - q) / b = (0.6 * 1 - 0.4) / 1 = 0.2 of the bankroll
+    const result = suggestBetSize(deepMarket);
+
+    assert.equal(result.betYes, true);
+    assert.ok(Math.abs(Number(result.amount) - 200_000_000) < 2_000_000, `got ${result.amount}`);
+    assert.ok(Math.abs(result.edge - 0.1) < 1e-9);
+  });
+
+  it('picks the NO side when the own probability is below the odds', () => {
+    const result = suggestBetSize({ ...deepMarket, probabilityYes: 0.4 });
+
+    assert.equal(result.betYes, false);
+    assert.ok(Math.abs(Number(result.amount) - 200_000_000) < 2_000_000, `got ${result.amount}`);
+  });
+
+  it('stakes the Kelly fraction of the full-Kelly amount', () => {
+    const result = suggestBetSize({ ...deepMarket, kellyFraction: 0.5 });
+
+    assert.equal(result.amount, BigInt(Math.floor(Number(result.fullKellyAmount) * 0.5)));
+  });
+
+  it('stakes less than closed-form Kelly when the bet moves a shallow pool', () => {
+    const shallow = suggestBetSize({
+      ...deepMarket,
+      pools: { yesPool: 1_000_000_000n, noPool: 1_000_000_000n },
+    });
+
+    assert.ok(shallow.amount < 190_000_000n, `got ${shallow.amount}`);
+    assert.ok(shallow.priceImpact > 0);
+  });
+
+  it('does not bet without an edge after fees', () => {
+    const result = suggestBetSize({
+      ...deepMarket,
+      rates: { creatorFeeBps: 100, protocolFeeBps: 100 },
+      probabilityYes: 0.5,
+    });
+
+    assert.equal(result.betYes, null);
+    assert.equal(result.amount, 0n);
+    assert.equal(result.expectedValue, 0n);
+  });
+
+  it('reports a stake below the program minimum as no bet on that side', () => {
+    const result = suggestBetSize({ ...deepMarket, minBet: 500_000_000n });
+
+    assert.equal(result.betYes, true);
+    assert.equal(result.amount, 0n);
+    assert.match(result.reason, /minimum/);
+  });
+
+  it('does not bet from an empty bankroll', () => {
+    const result = suggestBetSize({ ...deepMarket, bankroll: 0n });
+
+    assert.equal(result.betYes, null);
+    assert.equal(result.amount, 0n);
+  });
+});